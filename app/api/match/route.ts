@@ -0,0 +1,133 @@
+import { NextResponse } from "next/server"
+import { getRequestUser, supabaseAdmin } from "@/lib/supabase-server"
+import {
+  CAMPUS_PREFERENCES,
+  CHAT_MODES,
+  INTEREST_MATCH_WAIT_SECONDS,
+  REMATCH_COOLDOWN_SECONDS,
+  type MatchRequest,
+} from "@/lib/matchmaking"
+import { DEFAULT_STRATEGY_OPTIONS, rankCandidates, type QueueEntry } from "@/lib/match-strategy"
+
+// Candidates can be claimed by someone else between ranking and claiming, so try a few before giving up
+const MAX_CLAIM_ATTEMPTS = 5
+
+// Stale queue entries and abandoned rooms are swept from here rather than by a database cron job
+const CLEANUP_INTERVAL_SECONDS = 60
+
+const QUEUE_COLUMNS =
+  "user_id, username, interests, college_domain, campus_preference, course_codes, chat_mode, created_at, last_seen_at"
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string")
+}
+
+function isMatchRequest(body: unknown): body is MatchRequest {
+  if (typeof body !== "object" || body === null) return false
+  const { username, interests, campusPreference, courseCodes, chatMode } = body as Record<string, unknown>
+  return (
+    (username === null || typeof username === "string") &&
+    (interests === undefined || isStringArray(interests)) &&
+    (courseCodes === undefined || isStringArray(courseCodes)) &&
+    (campusPreference === undefined || CAMPUS_PREFERENCES.some((option) => option.value === campusPreference)) &&
+    (chatMode === undefined || CHAT_MODES.some((option) => option.value === chatMode))
+  )
+}
+
+// The database skips the sweep if any instance ran it in the last minute; a failed sweep shouldn't stop
+// anyone from being matched
+async function cleanupStaleMatchmaking() {
+  const { error } = await supabaseAdmin.rpc("cleanup_stale_matchmaking", {
+    p_rematch_cooldown_seconds: REMATCH_COOLDOWN_SECONDS,
+    p_min_interval_seconds: CLEANUP_INTERVAL_SECONDS,
+  })
+  if (error) console.error("Error cleaning up stale matchmaking:", error)
+}
+
+export async function POST(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "You need to be signed in" }, { status: 401 })
+  }
+  const userId = user.id
+
+  try {
+    const body: unknown = await request.json().catch(() => null)
+    if (!isMatchRequest(body)) {
+      return NextResponse.json({ error: "Invalid match request" }, { status: 400 })
+    }
+    const { username, interests = [], campusPreference = "any", courseCodes = [], chatMode = "video" } = body
+
+    await cleanupStaleMatchmaking()
+
+    const { data: existingRoom, error: enqueueError } = await supabaseAdmin.rpc("enqueue_for_match", {
+      p_user_id: userId,
+      p_username: username,
+      p_interests: interests,
+      p_campus_preference: campusPreference,
+      p_course_codes: courseCodes,
+      p_chat_mode: chatMode,
+    })
+
+    if (enqueueError) throw enqueueError
+    if (existingRoom) {
+      return NextResponse.json({ room: existingRoom })
+    }
+
+    const now = Date.now()
+    const cooldownStart = new Date(now - REMATCH_COOLDOWN_SECONDS * 1000).toISOString()
+
+    const [
+      { data: queue, error: queueError },
+      { data: recentPartners, error: recentError },
+      { data: blocks, error: blocksError },
+    ] = await Promise.all([
+      supabaseAdmin.from("waiting_queue").select(QUEUE_COLUMNS).is("event_id", null),
+      supabaseAdmin.from("recent_partners").select("partner_id").eq("user_id", userId).gt("matched_at", cooldownStart),
+      // Blocks apply both ways, whoever pressed the button
+      supabaseAdmin
+        .from("blocks")
+        .select("blocker_id, blocked_id")
+        .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`),
+    ])
+
+    if (queueError) throw queueError
+    if (recentError) throw recentError
+    if (blocksError) throw blocksError
+
+    const entries = (queue ?? []) as QueueEntry[]
+    const seeker = entries.find((entry) => entry.user_id === userId)
+    if (!seeker) {
+      return NextResponse.json({ room: null })
+    }
+
+    const candidates = rankCandidates(seeker, entries, {
+      ...DEFAULT_STRATEGY_OPTIONS,
+      now,
+      interestWaitSeconds: INTEREST_MATCH_WAIT_SECONDS,
+      excludedUserIds: [
+        ...(recentPartners ?? []).map((row) => row.partner_id),
+        ...(blocks ?? []).map((row) => (row.blocker_id === userId ? row.blocked_id : row.blocker_id)),
+      ],
+    })
+
+    for (const candidate of candidates.slice(0, MAX_CLAIM_ATTEMPTS)) {
+      const { data: room, error: claimError } = await supabaseAdmin.rpc("claim_match", {
+        p_user_id: userId,
+        p_partner_id: candidate.entry.user_id,
+        p_shared_interests: candidate.sharedInterests,
+        p_course_code: candidate.courseCode,
+      })
+
+      if (claimError) throw claimError
+      if (room) {
+        return NextResponse.json({ room })
+      }
+    }
+
+    return NextResponse.json({ room: null })
+  } catch (error: any) {
+    console.error("Matchmaking error:", error)
+    return NextResponse.json({ error: error.message || "Matchmaking failed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { createHmac } from "crypto"
+import { NextResponse } from "next/server"
+import { defaultIceServers } from "@/lib/ice-servers"
+import { getRequestUser } from "@/lib/supabase-server"
+
+// TURN relays, e.g. "turn:turn.example.edu:3478?transport=udp,turns:turn.example.edu:5349"
+const TURN_URLS = (process.env.TURN_URLS || "")
+  .split(",")
+  .map((url) => url.trim())
+  .filter(Boolean)
+
+// Same value as static-auth-secret in coturn (started with use-auth-secret)
+const TURN_SHARED_SECRET = process.env.TURN_SHARED_SECRET
+
+// Relays check the expiry again when an allocation is refreshed, so this has to outlast a long call, but
+// credentials copied out of the browser shouldn't keep the relay open to anyone for a whole day
+const TURN_CREDENTIAL_TTL_SECONDS = Number(process.env.TURN_CREDENTIAL_TTL_SECONDS) || 4 * 60 * 60
+
+// Mints credentials in the TURN REST API format coturn understands: the username is "<expiry>:<user id>"
+// and the password is the base64 HMAC-SHA1 of the username under the shared secret, so coturn can check
+// them without a database and they stop working once the expiry passes.
+export async function GET(request: Request) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "You need to be signed in" }, { status: 401 })
+  }
+
+  const iceServers = defaultIceServers()
+
+  if (TURN_URLS.length === 0 || !TURN_SHARED_SECRET) {
+    return NextResponse.json({ iceServers, ttl: null })
+  }
+
+  const expiresAt = Math.floor(Date.now() / 1000) + TURN_CREDENTIAL_TTL_SECONDS
+  const username = `${expiresAt}:${user.id}`
+  const credential = createHmac("sha1", TURN_SHARED_SECRET).update(username).digest("base64")
+
+  iceServers.push({ urls: TURN_URLS, username, credential })
+
+  return NextResponse.json(
+    { iceServers, ttl: TURN_CREDENTIAL_TTL_SECONDS },
+    { headers: { "Cache-Control": "no-store" } },
+  )
+}
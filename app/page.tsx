@@ -15,18 +15,6 @@ export default function HomePage() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  useEffect(() => {
-    // Clean up offline users on page load
-    const cleanupOfflineUsers = async () => {
-      try {
-        await supabase.from("users").update({ is_online: false }).eq("is_online", true)
-      } catch (error) {
-        console.error("Error cleaning up offline users:", error)
-      }
-    }
-    cleanupOfflineUsers()
-  }, [])
-
   const handleLogin = async (username: string) => {
     setLoading(true)
     setError(null)
@@ -34,11 +22,24 @@ export default function HomePage() {
     try {
       console.log("Attempting to create user with username:", username)
 
-      // First, try to find existing user with this username
+      // Database functions know who is calling from the session, so even name-only sign-ins get an
+      // anonymous one. It stays in the browser, so coming back picks up the same user.
+      let {
+        data: { session },
+      } = await supabase.auth.getSession()
+
+      if (!session) {
+        const { data, error: signInError } = await supabase.auth.signInAnonymously()
+        if (signInError) throw signInError
+        session = data.session
+      }
+
+      if (!session) throw new Error("Could not start a session")
+
       const { data: existingUser, error: findError } = await supabase
         .from("users")
         .select("*")
-        .eq("username", username)
+        .eq("id", session.user.id)
         .single()
 
       if (findError && findError.code !== "PGRST116") {
@@ -49,10 +50,10 @@ export default function HomePage() {
       let user: User
 
       if (existingUser) {
-        // Update existing user to online
+        // Update existing user to online, under the name they entered this time
         const { data: updatedUser, error: updateError } = await supabase
           .from("users")
-          .update({ is_online: true })
+          .update({ username, is_online: true })
           .eq("id", existingUser.id)
           .select()
           .single()
@@ -65,6 +66,7 @@ export default function HomePage() {
         const { data: newUser, error: insertError } = await supabase
           .from("users")
           .insert({
+            id: session.user.id,
             username,
             is_online: true,
           })
@@ -82,7 +84,8 @@ export default function HomePage() {
       console.error("Login error:", error)
 
       if (error.code === "23505") {
-        setError("This username is already taken. Please choose another one.")
+        // Names belong to the anonymous session that created them, which only lives in that browser
+        setError("This username is already taken. If it was yours, log in from the browser you used before.")
       } else {
         setError(`Login failed: ${error.message || "Unknown error"}`)
       }
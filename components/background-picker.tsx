@@ -0,0 +1,68 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Sparkles } from "lucide-react"
+import { BACKGROUND_EFFECTS, type BackgroundEffect } from "@/lib/background-effects"
+
+interface BackgroundSwatchesProps {
+  effect: BackgroundEffect
+  onSelect: (effect: BackgroundEffect) => void
+}
+
+// One tile per effect, shared by the in-call picker and the pre-call camera check
+export function BackgroundSwatches({ effect, onSelect }: BackgroundSwatchesProps) {
+  return (
+    <div className="grid grid-cols-5 gap-2">
+      {BACKGROUND_EFFECTS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          title={option.label}
+          onClick={() => onSelect(option.value)}
+          className={`h-12 rounded-lg border-2 text-xs font-medium text-white flex items-end justify-center pb-1 transition-colors ${
+            effect === option.value ? "border-purple-400" : "border-white/20 hover:border-white/50"
+          } ${option.value === "blur" ? "bg-gradient-to-br from-gray-400 to-gray-600" : option.colors ? "" : "bg-gray-800"}`}
+          style={
+            option.colors
+              ? { backgroundImage: `linear-gradient(135deg, ${option.colors[0]}, ${option.colors[1]})` }
+              : undefined
+          }
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+interface BackgroundPickerProps extends BackgroundSwatchesProps {
+  error: string | null
+}
+
+export default function BackgroundPicker({ effect, onSelect, error }: BackgroundPickerProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="secondary"
+          size="lg"
+          title="Background"
+          className={`rounded-full w-16 h-16 ${
+            effect !== "none"
+              ? "bg-purple-500 hover:bg-purple-600 text-white"
+              : "bg-white/20 hover:bg-white/30 text-white border-white/20"
+          }`}
+        >
+          <Sparkles className="w-6 h-6" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="top" className="w-80 space-y-3">
+        <Label>Background</Label>
+        <BackgroundSwatches effect={effect} onSelect={onSelect} />
+        {error && <p className="text-red-500 text-xs">{error}</p>}
+      </PopoverContent>
+    </Popover>
+  )
+}
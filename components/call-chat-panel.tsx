@@ -0,0 +1,177 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import { Download, Paperclip, Send, X } from "lucide-react"
+import type { CallChatMessage, FileTransfer } from "@/lib/call-data-channel"
+
+interface CallChatPanelProps {
+  userId: string
+  messages: CallChatMessage[]
+  transfers: FileTransfer[]
+  error: string | null
+  onSend: (content: string) => void
+  onSendFile: (file: File) => void
+  onClose: () => void
+}
+
+type TimelineItem =
+  | { kind: "message"; at: string; message: CallChatMessage }
+  | { kind: "file"; at: string; transfer: FileTransfer }
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`
+
+// Side panel for chatting and sharing files without leaving the call
+export default function CallChatPanel({
+  userId,
+  messages,
+  transfers,
+  error,
+  onSend,
+  onSendFile,
+  onClose,
+}: CallChatPanelProps) {
+  const [newMessage, setNewMessage] = useState("")
+  const messagesEndRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const timeline: TimelineItem[] = [
+    ...messages.map((message) => ({ kind: "message" as const, at: message.created_at, message })),
+    ...transfers.map((transfer) => ({ kind: "file" as const, at: transfer.createdAt, transfer })),
+  ].sort((a, b) => a.at.localeCompare(b.at))
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
+  }, [messages.length, transfers.length])
+
+  const sendMessage = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newMessage.trim()) return
+
+    onSend(newMessage.trim())
+    setNewMessage("")
+  }
+
+  const pickFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      onSendFile(file)
+    }
+    e.target.value = ""
+  }
+
+  return (
+    <div className="w-80 flex flex-col bg-black/30 backdrop-blur-lg border-l border-white/10">
+      <div className="flex items-center justify-between p-4 border-b border-white/10">
+        <h2 className="text-white font-semibold">Chat</h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="text-gray-300 hover:text-white hover:bg-white/10"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {timeline.length === 0 ? (
+          <p className="text-gray-400 text-sm text-center mt-8">
+            Messages are saved to this chat. Files go straight to the others in the call and aren't stored.
+          </p>
+        ) : (
+          timeline.map((item) => {
+            const mine =
+              item.kind === "message" ? item.message.sender_id === userId : item.transfer.direction === "outgoing"
+            return (
+              <div
+                key={item.kind === "message" ? item.message.id : item.transfer.id}
+                className={`flex ${mine ? "justify-end" : "justify-start"}`}
+              >
+                <div
+                  className={`max-w-[85%] px-4 py-2 rounded-2xl text-sm ${
+                    mine ? "bg-gradient-to-r from-purple-500 to-blue-500 text-white" : "bg-white/20 text-gray-100"
+                  }`}
+                >
+                  <div className="font-medium text-xs mb-1 opacity-75">
+                    {mine ? "You" : item.kind === "message" ? item.message.sender_username : item.transfer.senderName}
+                  </div>
+                  {item.kind === "message" ? (
+                    <span className="break-words">{item.message.content}</span>
+                  ) : (
+                    <FileTransferItem transfer={item.transfer} />
+                  )}
+                </div>
+              </div>
+            )
+          })
+        )}
+        <div ref={messagesEndRef} />
+      </div>
+
+      <div className="border-t border-white/10 p-4">
+        {error && <p className="text-red-400 text-xs mb-2">{error}</p>}
+        <form onSubmit={sendMessage} className="flex space-x-2">
+          <input ref={fileInputRef} type="file" className="hidden" onChange={pickFile} />
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            title="Send a file"
+            onClick={() => fileInputRef.current?.click()}
+            className="text-gray-300 hover:text-white hover:bg-white/10"
+          >
+            <Paperclip className="w-4 h-4" />
+          </Button>
+          <Input
+            value={newMessage}
+            onChange={(e) => setNewMessage(e.target.value)}
+            placeholder="Type a message..."
+            className="flex-1 bg-white/10 border-white/20 text-white placeholder-gray-400 focus:border-purple-400 focus:ring-purple-400"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white"
+          >
+            <Send className="w-4 h-4" />
+          </Button>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+function FileTransferItem({ transfer }: { transfer: FileTransfer }) {
+  const done = transfer.progress >= 1
+
+  return (
+    <div className="space-y-1 min-w-[10rem]">
+      <div className="flex items-center justify-between space-x-2">
+        <span className="truncate font-medium">{transfer.name}</span>
+        <span className="text-xs opacity-75 whitespace-nowrap">{formatSize(transfer.size)}</span>
+      </div>
+      {transfer.failed ? (
+        <div className="text-xs text-red-200">Transfer failed</div>
+      ) : !done ? (
+        <Progress value={transfer.progress * 100} className="h-1.5 bg-white/20" />
+      ) : transfer.url ? (
+        <a
+          href={transfer.url}
+          download={transfer.name}
+          className="inline-flex items-center text-xs font-medium underline underline-offset-2"
+        >
+          <Download className="w-3 h-3 mr-1" />
+          Download
+        </a>
+      ) : (
+        <div className="text-xs opacity-75">Sent</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Circle, Mic, MicOff, PhoneOff, ScreenShare, ScreenShareOff, Square, Video, VideoOff } from "lucide-react"
+import { supportsOutputSelection, type AudioProcessing, type DevicePreferences } from "@/lib/media-devices"
+import type { BackgroundEffect } from "@/lib/background-effects"
+import DevicePicker from "@/components/device-picker"
+import BackgroundPicker from "@/components/background-picker"
+
+interface CallControlsProps {
+  // Voice rooms have no camera, so nothing to turn on, share or blur
+  audioOnly: boolean
+  isAudioEnabled: boolean
+  isVideoEnabled: boolean
+  isScreenSharing: boolean
+  backgroundEffect: BackgroundEffect
+  backgroundError: string | null
+  // We or someone else is recording, so the button stops it
+  recordingActive: boolean
+  recordingDisabled: boolean
+  devices: MediaDeviceInfo[]
+  activeDevices: DevicePreferences
+  audioProcessing: AudioProcessing
+  onToggleAudio: () => void
+  onToggleVideo: () => void
+  onToggleScreenShare: () => void
+  onBackgroundEffect: (effect: BackgroundEffect) => void
+  onToggleRecording: () => void
+  onSelectDevice: (kind: MediaDeviceKind, deviceId: string) => void
+  onAudioProcessingChange: (processing: AudioProcessing) => void
+  onEndCall: () => void
+}
+
+export default function CallControls({
+  audioOnly,
+  isAudioEnabled,
+  isVideoEnabled,
+  isScreenSharing,
+  backgroundEffect,
+  backgroundError,
+  recordingActive,
+  recordingDisabled,
+  devices,
+  activeDevices,
+  audioProcessing,
+  onToggleAudio,
+  onToggleVideo,
+  onToggleScreenShare,
+  onBackgroundEffect,
+  onToggleRecording,
+  onSelectDevice,
+  onAudioProcessingChange,
+  onEndCall,
+}: CallControlsProps) {
+  return (
+    <div className="flex space-x-4 bg-black/50 backdrop-blur-lg rounded-full p-4 border border-white/20">
+      <Button
+        variant={isAudioEnabled ? "secondary" : "destructive"}
+        size="lg"
+        onClick={onToggleAudio}
+        className={`rounded-full w-16 h-16 ${
+          isAudioEnabled
+            ? "bg-white/20 hover:bg-white/30 text-white border-white/20"
+            : "bg-red-500 hover:bg-red-600 text-white"
+        }`}
+      >
+        {isAudioEnabled ? <Mic className="w-6 h-6" /> : <MicOff className="w-6 h-6" />}
+      </Button>
+
+      {!audioOnly && (
+        <Button
+          variant={isVideoEnabled ? "secondary" : "destructive"}
+          size="lg"
+          onClick={onToggleVideo}
+          className={`rounded-full w-16 h-16 ${
+            isVideoEnabled
+              ? "bg-white/20 hover:bg-white/30 text-white border-white/20"
+              : "bg-red-500 hover:bg-red-600 text-white"
+          }`}
+        >
+          {isVideoEnabled ? <Video className="w-6 h-6" /> : <VideoOff className="w-6 h-6" />}
+        </Button>
+      )}
+
+      {!audioOnly && (
+        <Button
+          variant="secondary"
+          size="lg"
+          onClick={onToggleScreenShare}
+          title={isScreenSharing ? "Stop sharing" : "Share your screen"}
+          className={`rounded-full w-16 h-16 ${
+            isScreenSharing
+              ? "bg-purple-500 hover:bg-purple-600 text-white"
+              : "bg-white/20 hover:bg-white/30 text-white border-white/20"
+          }`}
+        >
+          {isScreenSharing ? <ScreenShareOff className="w-6 h-6" /> : <ScreenShare className="w-6 h-6" />}
+        </Button>
+      )}
+
+      {!audioOnly && (
+        <BackgroundPicker effect={backgroundEffect} onSelect={onBackgroundEffect} error={backgroundError} />
+      )}
+
+      <Button
+        variant="secondary"
+        size="lg"
+        onClick={onToggleRecording}
+        disabled={recordingDisabled}
+        title={recordingActive ? "Stop recording" : "Record (everyone has to agree)"}
+        className={`rounded-full w-16 h-16 ${
+          recordingActive
+            ? "bg-red-500 hover:bg-red-600 text-white"
+            : "bg-white/20 hover:bg-white/30 text-white border-white/20"
+        }`}
+      >
+        {recordingActive ? <Square className="w-6 h-6" /> : <Circle className="w-6 h-6" />}
+      </Button>
+
+      <DevicePicker
+        devices={devices}
+        audioInputId={activeDevices.audioInputId ?? ""}
+        videoInputId={activeDevices.videoInputId ?? ""}
+        audioOutputId={activeDevices.audioOutputId ?? ""}
+        showCamera={!audioOnly}
+        showSpeaker={supportsOutputSelection()}
+        audioProcessing={audioProcessing}
+        onSelect={onSelectDevice}
+        onAudioProcessingChange={onAudioProcessingChange}
+      />
+
+      <Button
+        variant="destructive"
+        size="lg"
+        onClick={onEndCall}
+        className="rounded-full w-16 h-16 bg-gradient-to-r from-red-500 to-pink-500 hover:from-red-600 hover:to-pink-600"
+      >
+        <PhoneOff className="w-6 h-6" />
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+"use client"
+
+import type React from "react"
+
+import { Button } from "@/components/ui/button"
+import { Gauge, MessageCircle, PhoneOff } from "lucide-react"
+import { SignalBars } from "@/components/call-stats-panel"
+import type { ConnectionStatus, RemoteParticipant } from "@/hooks/use-peer-mesh"
+
+interface CallHeaderProps {
+  connectionStatus: ConnectionStatus
+  // Seconds since the call connected
+  callDuration: number
+  // Seconds left in a timed call
+  secondsLeft: number | null
+  signalBars: number | null
+  isRecording: boolean
+  // Whoever else is recording, if anyone
+  remoteRecorder?: RemoteParticipant
+  participantCount: number
+  headerActions?: React.ReactNode
+  isChatOpen: boolean
+  unreadCount: number
+  showStats: boolean
+  onToggleChat: () => void
+  onToggleStats: () => void
+  onEndCall: () => void
+}
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = seconds % 60
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
+}
+
+export default function CallHeader({
+  connectionStatus,
+  callDuration,
+  secondsLeft,
+  signalBars,
+  isRecording,
+  remoteRecorder,
+  participantCount,
+  headerActions,
+  isChatOpen,
+  unreadCount,
+  showStats,
+  onToggleChat,
+  onToggleStats,
+  onEndCall,
+}: CallHeaderProps) {
+  return (
+    <div className="bg-black/20 backdrop-blur-lg border-b border-white/10 p-4">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-4">
+          <h1 className="text-xl font-bold text-white">
+            Campus<span className="text-purple-400">Chat</span>
+          </h1>
+          <div className="flex items-center space-x-2">
+            <div
+              className={`w-3 h-3 rounded-full ${
+                connectionStatus === "connected"
+                  ? "bg-green-400 animate-pulse"
+                  : connectionStatus === "connecting" || connectionStatus === "reconnecting"
+                    ? "bg-yellow-400 animate-pulse"
+                    : "bg-red-400"
+              }`}
+            ></div>
+            <span className="text-gray-300 text-sm">
+              {connectionStatus === "connected"
+                ? `Connected • ${formatDuration(callDuration)}`
+                : connectionStatus === "connecting"
+                  ? "Connecting..."
+                  : connectionStatus === "reconnecting"
+                    ? "Reconnecting..."
+                    : "Disconnected"}
+            </span>
+            {connectionStatus === "connected" && signalBars !== null && <SignalBars level={signalBars} />}
+            {(isRecording || remoteRecorder) && (
+              <span className="flex items-center space-x-1 bg-red-500/20 border border-red-400/40 text-red-200 text-xs font-semibold px-2 py-0.5 rounded-full">
+                <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
+                <span>
+                  REC • {isRecording ? "You're recording" : `${remoteRecorder?.username || "Someone"} is recording`}
+                </span>
+              </span>
+            )}
+            {secondsLeft !== null && (
+              <span className={`text-sm font-medium ${secondsLeft <= 30 ? "text-red-300" : "text-gray-300"}`}>
+                • {formatDuration(secondsLeft)} left
+              </span>
+            )}
+            {participantCount > 2 && <span className="text-gray-400 text-sm">• {participantCount} in call</span>}
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          {headerActions}
+          <Button
+            variant="ghost"
+            onClick={onToggleChat}
+            title={isChatOpen ? "Hide chat" : "Show chat"}
+            className={`relative text-white hover:bg-white/10 ${isChatOpen ? "bg-white/20" : ""}`}
+          >
+            <MessageCircle className="w-4 h-4" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+                {unreadCount}
+              </span>
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={onToggleStats}
+            title={showStats ? "Hide call stats" : "Show call stats"}
+            className={`text-white hover:bg-white/10 ${showStats ? "bg-white/20" : ""}`}
+          >
+            <Gauge className="w-4 h-4" />
+          </Button>
+          <Button
+            onClick={onEndCall}
+            variant="destructive"
+            className="bg-gradient-to-r from-red-500 to-pink-500 hover:from-red-600 hover:to-pink-600"
+          >
+            <PhoneOff className="w-4 h-4 mr-2" />
+            End Call
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Circle, RotateCcw, WifiOff } from "lucide-react"
+import type { ConnectionStatus } from "@/hooks/use-peer-mesh"
+
+interface RecordingBannerProps {
+  // Someone else asking us to agree to recording
+  request: { senderId: string; username: string } | null
+  awaitingConsent: boolean
+  notice: string | null
+  onAnswer: (accepted: boolean) => void
+  onCancel: () => void
+}
+
+// Asks us to agree to someone's recording, shows our own request while we wait, or says how one turned out
+export function RecordingBanner({ request, awaitingConsent, notice, onAnswer, onCancel }: RecordingBannerProps) {
+  if (!request && !notice && !awaitingConsent) return null
+
+  return (
+    <div className="absolute top-16 left-1/2 -translate-x-1/2 z-10 flex items-center space-x-3 bg-black/70 backdrop-blur-sm text-white text-sm rounded-full pl-4 pr-2 py-2 border border-red-400/40">
+      <Circle className="w-4 h-4 text-red-400 fill-red-400" />
+      {request ? (
+        <>
+          <span>{request.username || "Someone"} wants to record this call</span>
+          <Button size="sm" onClick={() => onAnswer(true)} className="rounded-full">
+            Allow
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => onAnswer(false)}
+            className="rounded-full text-white hover:bg-white/10"
+          >
+            Decline
+          </Button>
+        </>
+      ) : awaitingConsent ? (
+        <>
+          <span>Waiting for everyone to agree to recording...</span>
+          <Button size="sm" variant="ghost" onClick={onCancel} className="rounded-full text-white hover:bg-white/10">
+            Cancel
+          </Button>
+        </>
+      ) : (
+        <span className="pr-2">{notice}</span>
+      )}
+    </div>
+  )
+}
+
+interface AudioOnlyBannerProps {
+  // Offering to drop to audio only, as opposed to having already done it
+  offered: boolean
+  onSwitch: () => void
+  onKeepVideo: () => void
+  onTurnVideoOn: () => void
+}
+
+export function AudioOnlyBanner({ offered, onSwitch, onKeepVideo, onTurnVideoOn }: AudioOnlyBannerProps) {
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex items-center space-x-3 bg-black/70 backdrop-blur-sm text-white text-sm rounded-full pl-4 pr-2 py-2 border border-yellow-400/40">
+      <WifiOff className="w-4 h-4 text-yellow-300" />
+      {offered ? (
+        <>
+          <span>Your connection is struggling. Switch to audio only?</span>
+          <Button size="sm" onClick={onSwitch} className="rounded-full">
+            Audio only
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onKeepVideo} className="rounded-full text-white hover:bg-white/10">
+            Keep video
+          </Button>
+        </>
+      ) : (
+        <>
+          <span>Video paused on a weak connection. It'll come back when things improve.</span>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onTurnVideoOn}
+            className="rounded-full text-white hover:bg-white/10"
+          >
+            Turn on now
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
+
+interface ConnectionOverlayProps {
+  status: ConnectionStatus
+  waitingForOthers: boolean
+  // Re-dialing only helps when our own camera and mic are working
+  canRedial: boolean
+  onRedial: () => void
+  onEndCall: () => void
+}
+
+// Covers the videos until the call connects, and while it's reconnecting or lost
+export function ConnectionOverlay({
+  status,
+  waitingForOthers,
+  canRedial,
+  onRedial,
+  onEndCall,
+}: ConnectionOverlayProps) {
+  if (status === "connected") return null
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/75 backdrop-blur-sm">
+      {status === "connecting" ? (
+        <div className="text-white text-center">
+          <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-purple-400 mx-auto mb-6"></div>
+          <div className="text-2xl font-bold mb-2">Connecting...</div>
+          <div className="text-gray-300">{waitingForOthers ? "Waiting for others to join" : "Joining call"}</div>
+        </div>
+      ) : status === "reconnecting" ? (
+        <div className="text-white text-center">
+          <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-yellow-400 mx-auto mb-6"></div>
+          <div className="text-2xl font-bold mb-2">Reconnecting...</div>
+          <div className="text-gray-300">The connection dropped, trying to restore it</div>
+        </div>
+      ) : (
+        <div className="text-white text-center">
+          <div className="text-2xl font-bold mb-4">Connection Lost</div>
+          <div className="flex justify-center space-x-3">
+            {canRedial && (
+              <Button
+                onClick={onRedial}
+                size="lg"
+                className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Re-dial
+              </Button>
+            )}
+            <Button onClick={onEndCall} variant="destructive" size="lg">
+              End Call
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import { signalLevel, type CallStats } from "@/lib/call-stats"
+
+// Four bars of rising height, the first `level` of them lit
+export function SignalBars({ level }: { level: number }) {
+  const color = level >= 3 ? "bg-green-400" : level === 2 ? "bg-yellow-400" : "bg-red-400"
+
+  return (
+    <div className="flex items-end space-x-0.5 h-3" title={`Signal ${level}/4`}>
+      {[1, 2, 3, 4].map((bar) => (
+        <div
+          key={bar}
+          className={`w-1 rounded-sm ${bar <= level ? color : "bg-white/20"}`}
+          style={{ height: `${bar * 25}%` }}
+        />
+      ))}
+    </div>
+  )
+}
+
+interface StatsPanelProps {
+  username: string
+  stats?: CallStats
+}
+
+// Live numbers for one connection, opened from the gauge in the header
+export default function StatsPanel({ username, stats }: StatsPanelProps) {
+  const level = signalLevel(stats)
+  const show = (value: number | null | undefined, unit: string, digits = 0) =>
+    value === null || value === undefined ? "–" : `${value.toFixed(digits)} ${unit}`
+
+  const rows: [string, string][] = stats
+    ? [
+        ["Round trip", show(stats.roundTripTimeMs, "ms")],
+        ["Packet loss", show(stats.packetLossPercent, "%", 1)],
+        ["Jitter", show(stats.jitterMs, "ms")],
+        ["Bitrate in", show(stats.inboundKbps, "kbps")],
+        ["Bitrate out", show(stats.outboundKbps, "kbps")],
+        [
+          "Video",
+          stats.frameWidth && stats.frameHeight
+            ? `${stats.frameWidth}×${stats.frameHeight} @ ${show(stats.framesPerSecond, "fps")}`
+            : "–",
+        ],
+        ["Path", stats.relayed === null ? "–" : stats.relayed ? "Relayed (TURN)" : "Direct"],
+      ]
+    : []
+
+  return (
+    <div className="bg-black/60 backdrop-blur-sm text-white text-xs rounded-lg px-3 py-2 border border-white/10">
+      <div className="flex items-center justify-between mb-1 space-x-4">
+        <span className="font-semibold">{username || "Student"}</span>
+        {level !== null && <SignalBars level={level} />}
+      </div>
+      {stats ? (
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-0.5">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-gray-400">{label}</dt>
+              <dd className="text-right font-mono">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <div className="text-gray-400">Waiting for stats...</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { VideoOff } from "lucide-react"
+import { loadDevicePreferences, videoConstraints } from "@/lib/media-devices"
+import {
+  createBackgroundProcessor,
+  loadBackgroundEffect,
+  saveBackgroundEffect,
+  type BackgroundEffect,
+  type BackgroundProcessor,
+} from "@/lib/background-effects"
+import { BackgroundSwatches } from "@/components/background-picker"
+
+// Pre-call preview of the camera with the chosen background effect; the choice carries into the next call
+export default function CameraCheck() {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const cameraTrackRef = useRef<MediaStreamTrack | null>(null)
+  const processorRef = useRef<BackgroundProcessor | null>(null)
+
+  const [effect, setEffect] = useState<BackgroundEffect>("none")
+  const [cameraError, setCameraError] = useState(false)
+  const [effectError, setEffectError] = useState<string | null>(null)
+  const [isLoadingEffect, setIsLoadingEffect] = useState(false)
+
+  useEffect(() => {
+    startCamera()
+    return () => {
+      processorRef.current?.stop()
+      processorRef.current = null
+      cameraTrackRef.current?.stop()
+      cameraTrackRef.current = null
+    }
+  }, [])
+
+  const startCamera = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: videoConstraints(loadDevicePreferences().videoInputId),
+      })
+      cameraTrackRef.current = stream.getVideoTracks()[0]
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream
+      }
+      await selectEffect(loadBackgroundEffect())
+    } catch (error) {
+      console.error("Error starting camera preview:", error)
+      setCameraError(true)
+    }
+  }
+
+  const selectEffect = async (next: BackgroundEffect) => {
+    setEffect(next)
+    setEffectError(null)
+    saveBackgroundEffect(next)
+
+    const cameraTrack = cameraTrackRef.current
+    if (!cameraTrack) return
+
+    if (next === "none") {
+      processorRef.current?.stop()
+      processorRef.current = null
+      if (videoRef.current) {
+        videoRef.current.srcObject = new MediaStream([cameraTrack])
+      }
+      return
+    }
+
+    if (processorRef.current) {
+      processorRef.current.setEffect(next)
+      return
+    }
+
+    setIsLoadingEffect(true)
+    try {
+      const processor = await createBackgroundProcessor(cameraTrack, next)
+      // Closed, or another effect got there first, while the model was loading
+      const existing = processorRef.current as BackgroundProcessor | null
+      if (cameraTrack.readyState === "ended" || existing) {
+        processor.stop()
+        existing?.setEffect(next)
+        return
+      }
+
+      processorRef.current = processor
+      if (videoRef.current) {
+        videoRef.current.srcObject = new MediaStream([processor.track])
+      }
+    } catch (error) {
+      console.error("Error starting background effect:", error)
+      setEffect("none")
+      setEffectError("Background effects aren't available on this device")
+    } finally {
+      setIsLoadingEffect(false)
+    }
+  }
+
+  return (
+    <div className="max-w-sm mx-auto space-y-3">
+      <div className="relative aspect-video bg-black/50 rounded-xl overflow-hidden border border-white/20">
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className="w-full h-full object-cover"
+          style={{ transform: "scaleX(-1)" }}
+        />
+        {cameraError && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/75 text-white text-sm">
+            <VideoOff className="w-8 h-8 mb-2" />
+            Couldn't open your camera
+          </div>
+        )}
+        {isLoadingEffect && (
+          <div className="absolute bottom-2 left-2 bg-black/50 backdrop-blur-sm text-white text-xs px-2 py-1 rounded">
+            Loading background...
+          </div>
+        )}
+      </div>
+      {!cameraError && <BackgroundSwatches effect={effect} onSelect={selectEffect} />}
+      {effectError && <p className="text-red-400 text-sm">{effectError}</p>}
+    </div>
+  )
+}
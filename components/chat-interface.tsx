@@ -4,11 +4,19 @@ import type React from "react"
 
 import { useState, useEffect, useRef } from "react"
 import { supabase } from "@/lib/supabase"
+import { INTEREST_TAGS, CHAT_MODES, MAX_GROUP_PARTICIPANTS, formatWaitEstimate, type ChatMode } from "@/lib/matchmaking"
+import { useMatchmaking } from "@/hooks/use-matchmaking"
+import { useRoomHeartbeat } from "@/hooks/use-room-heartbeat"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import VideoCall from "@/components/video-call"
-import { Video, MessageCircle, Send, Users, LogOut, Search, Phone, PhoneOff } from "lucide-react"
+import NetworkingEvent from "@/components/networking-event"
+import ConnectButton from "@/components/connect-button"
+import ContactsList, { type DirectRoom } from "@/components/contacts-list"
+import SettingsPage from "@/components/settings-page"
+import CameraCheck from "@/components/camera-check"
+import { Video, MessageCircle, Send, Users, LogOut, Search, Phone, PhoneOff, SkipForward, Copy, UserPlus, CalendarClock, Ban, Settings, Mic, Sparkles } from "lucide-react"
 
 interface Message {
   id: string
@@ -20,13 +28,29 @@ interface Message {
 
 interface ChatRoom {
   id: string
-  user1_id: string
-  user2_id: string
-  user1_username: string
-  user2_username: string
+  user1_id: string | null
+  user2_id: string | null
+  user1_username: string | null
+  user2_username: string | null
+  shared_interests: string[]
+  is_group: boolean
+  is_direct: boolean
+  max_participants: number
+  chat_mode: ChatMode
+  video_upgrade_requested_by: string[]
   is_active: boolean
 }
 
+interface LastPartner {
+  roomId: string
+  username: string
+}
+
+interface Participant {
+  user_id: string
+  username: string | null
+}
+
 interface User {
   id: string
   username: string
@@ -36,12 +60,23 @@ export default function ChatInterface({ currentUser }: { currentUser: User }) {
   const [chatRoom, setChatRoom] = useState<ChatRoom | null>(null)
   const [messages, setMessages] = useState<Message[]>([])
   const [newMessage, setNewMessage] = useState("")
-  const [isSearching, setIsSearching] = useState(false)
   const [isInVideoCall, setIsInVideoCall] = useState(false)
   const [onlineCount, setOnlineCount] = useState(0)
   const [otherUser, setOtherUser] = useState<string>("")
+  const [partnerLeft, setPartnerLeft] = useState(false)
+  const [interests, setInterests] = useState<string[]>([])
+  const [chatMode, setChatMode] = useState<ChatMode>("video")
+  const [participants, setParticipants] = useState<Participant[]>([])
+  const [roomCode, setRoomCode] = useState("")
+  const [groupError, setGroupError] = useState<string | null>(null)
+  const [isInEvent, setIsInEvent] = useState(false)
+  const [isInSettings, setIsInSettings] = useState(false)
+  const [isCheckingCamera, setIsCheckingCamera] = useState(false)
+  const [lastPartner, setLastPartner] = useState<LastPartner | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
+  useRoomHeartbeat(chatRoom?.id)
+
   useEffect(() => {
     getOnlineCount()
     const interval = setInterval(getOnlineCount, 30000)
@@ -50,10 +85,17 @@ export default function ChatInterface({ currentUser }: { currentUser: User }) {
 
   useEffect(() => {
     if (chatRoom) {
-      subscribeToMessages()
-      setOtherUser(chatRoom.user1_id === currentUser.id ? chatRoom.user2_username : chatRoom.user1_username)
+      setOtherUser((chatRoom.user1_id === currentUser.id ? chatRoom.user2_username : chatRoom.user1_username) ?? "")
+      return subscribeToMessages()
     }
-  }, [chatRoom])
+  }, [chatRoom?.id])
+
+  useEffect(() => {
+    // Both sides accepted an upgrade from text or voice
+    if (chatRoom?.chat_mode === "video" && chatRoom.video_upgrade_requested_by.length > 0) {
+      setIsInVideoCall(true)
+    }
+  }, [chatRoom?.chat_mode])
 
   useEffect(() => {
     scrollToBottom()
@@ -68,96 +110,38 @@ export default function ChatInterface({ currentUser }: { currentUser: User }) {
     }
   }
 
-  const findMatch = async () => {
-    setIsSearching(true)
-
-    try {
-      console.log("Adding user to waiting queue:", currentUser.username)
-
-      const { error: queueError } = await supabase.from("waiting_queue").upsert({
-        user_id: currentUser.id,
-        username: currentUser.username,
-      })
-
-      if (queueError) {
-        console.error("Error adding to queue:", queueError)
-        throw queueError
-      }
-
-      const { data: waitingUsers, error: searchError } = await supabase
-        .from("waiting_queue")
-        .select("*")
-        .neq("user_id", currentUser.id)
-        .limit(1)
+  const joinRoom = (room: ChatRoom) => {
+    console.log("Matched into room:", room)
+    setChatRoom(room)
+    setPartnerLeft(false)
 
-      if (searchError) {
-        console.error("Error searching queue:", searchError)
-        throw searchError
-      }
+    if (room.chat_mode !== "text") {
+      setTimeout(() => {
+        setIsInVideoCall(true)
+      }, 2000)
+    }
+  }
 
-      console.log("Found waiting users:", waitingUsers)
-
-      if (waitingUsers && waitingUsers.length > 0) {
-        const matchedUser = waitingUsers[0]
-        console.log("Matched with user:", matchedUser.username)
-
-        const { data: room, error: roomError } = await supabase
-          .from("chat_rooms")
-          .insert({
-            user1_id: currentUser.id,
-            user2_id: matchedUser.user_id,
-            user1_username: currentUser.username,
-            user2_username: matchedUser.username,
-            is_active: true,
-          })
-          .select()
-          .single()
-
-        if (roomError) {
-          console.error("Error creating room:", roomError)
-          throw roomError
-        }
+  const { isSearching, queueStatus, findMatch: searchForMatch, stopSearching } = useMatchmaking<ChatRoom>(
+    currentUser.id,
+    joinRoom,
+  )
 
-        console.log("Created room:", room)
-        setChatRoom(room)
-        setIsSearching(false)
+  const findMatch = async () => {
+    setIsCheckingCamera(false)
+    await searchForMatch({ username: currentUser.username, interests, chatMode })
+  }
 
-        await supabase.from("waiting_queue").delete().in("user_id", [currentUser.id, matchedUser.user_id])
-        console.log("Removed users from queue")
+  const toggleInterest = (tag: string) => {
+    setInterests((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]))
+  }
 
-        setTimeout(() => {
-          setIsInVideoCall(true)
-        }, 2000)
-      } else {
-        const { data: existingRoom } = await supabase
-          .from("chat_rooms")
-          .select("*")
-          .eq("user2_id", currentUser.id)
-          .eq("is_active", true)
-          .single()
-
-        if (existingRoom) {
-          console.log("Found existing room:", existingRoom)
-          setChatRoom(existingRoom)
-          setIsSearching(false)
-          await supabase.from("waiting_queue").delete().eq("user_id", currentUser.id)
-
-          setTimeout(() => {
-            setIsInVideoCall(true)
-          }, 1000)
-        } else {
-          console.log("No match found, waiting...")
-          setTimeout(() => {
-            if (isSearching) {
-              findMatch()
-            }
-          }, 2000)
-        }
-      }
-    } catch (error) {
-      console.error("Error finding match:", error)
-      setIsSearching(false)
-    }
+  const openDirectRoom = (room: DirectRoom, withVideo: boolean) => {
+    console.log("Opening direct room:", room)
+    setChatRoom(room)
+    setPartnerLeft(false)
+    setLastPartner(null)
+    setIsInVideoCall(withVideo)
   }
 
   const subscribeToMessages = () => {
@@ -177,9 +161,40 @@ export default function ChatInterface({ currentUser }: { currentUser: User }) {
           setMessages((prev) => [...prev, payload.new as Message])
         },
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "chat_rooms",
+          filter: `id=eq.${chatRoom.id}`,
+        },
+        (payload) => {
+          const room = payload.new as ChatRoom
+          if (!room.is_active) {
+            console.log("Partner left the room")
+            setPartnerLeft(true)
+            setIsInVideoCall(false)
+          }
+          setChatRoom((prev) => prev && { ...prev, ...room })
+        },
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "chat_room_participants",
+          filter: `room_id=eq.${chatRoom.id}`,
+        },
+        () => {
+          loadParticipants()
+        },
+      )
       .subscribe()
 
     loadMessages()
+    loadParticipants()
 
     return () => {
       supabase.removeChannel(channel)
@@ -204,24 +219,113 @@ export default function ChatInterface({ currentUser }: { currentUser: User }) {
     }
   }
 
+  const loadParticipants = async () => {
+    if (!chatRoom) return
+
+    try {
+      const { data } = await supabase
+        .from("chat_room_participants")
+        .select("user_id, username")
+        .eq("room_id", chatRoom.id)
+        .is("left_at", null)
+        .order("joined_at", { ascending: true })
+
+      if (data) {
+        setParticipants(data)
+      }
+    } catch (error) {
+      console.error("Error loading participants:", error)
+    }
+  }
+
+  const createGroupRoom = async () => {
+    setGroupError(null)
+
+    try {
+      const { data: room, error } = await supabase.rpc("create_group_room", {
+        p_username: currentUser.username,
+        p_max_participants: MAX_GROUP_PARTICIPANTS,
+      })
+
+      if (error) throw error
+
+      console.log("Created group room:", room)
+      setChatRoom(room)
+      setPartnerLeft(false)
+    } catch (error: any) {
+      console.error("Error creating group room:", error)
+      setGroupError(error.message || "Could not create a group room")
+    }
+  }
+
+  const joinGroupRoom = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!roomCode.trim()) return
+    setGroupError(null)
+
+    try {
+      const { data: room, error } = await supabase.rpc("join_group_room", {
+        p_room_id: roomCode.trim(),
+        p_username: currentUser.username,
+      })
+
+      if (error) throw error
+
+      console.log("Joined group room:", room)
+      setChatRoom(room)
+      setPartnerLeft(false)
+      setRoomCode("")
+    } catch (error: any) {
+      console.error("Error joining group room:", error)
+      setGroupError(error.message || "Could not join that room")
+    }
+  }
+
+  const copyRoomCode = async () => {
+    if (!chatRoom) return
+    try {
+      await navigator.clipboard.writeText(chatRoom.id)
+    } catch (error) {
+      console.error("Error copying room code:", error)
+    }
+  }
+
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!newMessage.trim() || !chatRoom) return
 
     try {
-      await supabase.from("messages").insert({
+      const { error } = await supabase.from("messages").insert({
         room_id: chatRoom.id,
         sender_id: currentUser.id,
         sender_username: currentUser.username,
         content: newMessage.trim(),
       })
 
+      if (error) throw error
+
       setNewMessage("")
     } catch (error) {
       console.error("Error sending message:", error)
     }
   }
 
+  const upgradeRequested = !!chatRoom?.video_upgrade_requested_by.includes(currentUser.id)
+
+  const requestVideoUpgrade = async () => {
+    if (!chatRoom) return
+
+    try {
+      const { data: room, error } = await supabase.rpc("request_video_upgrade", { p_room_id: chatRoom.id })
+
+      if (error) throw error
+
+      setChatRoom((prev) => prev && { ...prev, ...room })
+    } catch (error) {
+      console.error("Error requesting video upgrade:", error)
+    }
+  }
+
   const startVideoCall = () => {
     setIsInVideoCall(true)
   }
@@ -234,21 +338,51 @@ export default function ChatInterface({ currentUser }: { currentUser: User }) {
     if (!chatRoom) return
 
     try {
-      await supabase.from("chat_rooms").update({ is_active: false }).eq("id", chatRoom.id)
+      if (chatRoom.is_group) {
+        // Group rooms stay open until the last participant leaves
+        await supabase.rpc("leave_room", { p_room_id: chatRoom.id })
+      } else {
+        await supabase.rpc("end_room", { p_room_id: chatRoom.id })
+      }
+
+      // Either side can still press Connect after the chat is over
+      setLastPartner(chatRoom.is_group || chatRoom.is_direct ? null : { roomId: chatRoom.id, username: otherUser })
 
       setChatRoom(null)
       setMessages([])
+      setParticipants([])
       setIsInVideoCall(false)
-      setIsSearching(false)
       setOtherUser("")
+      setPartnerLeft(false)
     } catch (error) {
       console.error("Error ending chat:", error)
     }
   }
 
-  const stopSearching = async () => {
-    setIsSearching(false)
-    await supabase.from("waiting_queue").delete().eq("user_id", currentUser.id)
+  const blockPartner = async () => {
+    if (!chatRoom || chatRoom.is_group) return
+
+    const partnerId = chatRoom.user1_id === currentUser.id ? chatRoom.user2_id : chatRoom.user1_id
+
+    try {
+      const { error } = await supabase.rpc("block_user", {
+        p_blocked_id: partnerId,
+        p_blocked_username: otherUser,
+      })
+
+      if (error) throw error
+
+      await endChat()
+      setLastPartner(null)
+    } catch (error) {
+      console.error("Error blocking user:", error)
+    }
+  }
+
+  const nextPartner = async () => {
+    // Recent partners are excluded by matchmaking, so this won't rematch the same person
+    await endChat()
+    await findMatch()
   }
 
   const scrollToBottom = () => {
@@ -262,13 +396,32 @@ export default function ChatInterface({ currentUser }: { currentUser: User }) {
     window.location.reload()
   }
 
+  if (isInSettings) {
+    return <SettingsPage currentUser={currentUser} onExit={() => setIsInSettings(false)} />
+  }
+
+  if (isInEvent) {
+    return <NetworkingEvent currentUser={currentUser} onExit={() => setIsInEvent(false)} />
+  }
+
   if (isInVideoCall && chatRoom) {
     return (
       <VideoCall
+        key={chatRoom.chat_mode}
         roomId={chatRoom.id}
         userId={currentUser.id}
         username={currentUser.username}
-        isInitiator={chatRoom.user1_id === currentUser.id}
+        audioOnly={chatRoom.chat_mode === "voice"}
+        headerActions={
+          !chatRoom.is_group &&
+          !chatRoom.is_direct && (
+            <ConnectButton
+              roomId={chatRoom.id}
+              userId={currentUser.id}
+              className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white"
+            />
+          )
+        }
         onEndCall={endVideoCall}
       />
     )
@@ -293,6 +446,16 @@ export default function ChatInterface({ currentUser }: { currentUser: User }) {
             <div className="text-gray-300 text-sm">
               Welcome, <span className="font-semibold text-white">{currentUser.username}</span>
             </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsInSettings(true)}
+              disabled={!!chatRoom || isSearching}
+              className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+            >
+              <Settings className="w-4 h-4 mr-2" />
+              Settings
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -311,6 +474,28 @@ export default function ChatInterface({ currentUser }: { currentUser: User }) {
           <div className="flex items-center justify-center min-h-[80vh]">
             <Card className="w-full max-w-2xl bg-white/10 backdrop-blur-lg border-white/20 shadow-2xl">
               <CardContent className="py-16 text-center">
+                {lastPartner && (
+                  <div className="flex items-center justify-between bg-white/10 rounded-xl px-4 py-3 mb-8 max-w-lg mx-auto">
+                    <span className="text-gray-300 text-sm">
+                      Keep in touch with <span className="font-semibold text-white">{lastPartner.username}</span>?
+                    </span>
+                    <div className="flex items-center space-x-2">
+                      <ConnectButton
+                        roomId={lastPartner.roomId}
+                        userId={currentUser.id}
+                        className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setLastPartner(null)}
+                        className="text-gray-400 hover:text-white hover:bg-white/10"
+                      >
+                        Dismiss
+                      </Button>
+                    </div>
+                  </div>
+                )}
                 <div className="mb-8">
                   <div className="mx-auto w-24 h-24 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full flex items-center justify-center mb-6">
                     <Video className="w-12 h-12 text-white" />
@@ -320,6 +505,60 @@ export default function ChatInterface({ currentUser }: { currentUser: User }) {
                     Start a verified video chat with students from around the world
                   </p>
                 </div>
+                <div className="mb-6">
+                  <p className="text-gray-300 text-sm mb-3">How do you want to chat?</p>
+                  <div className="inline-flex bg-white/10 border border-white/20 rounded-full p-1">
+                    {CHAT_MODES.map((mode) => (
+                      <button
+                        key={mode.value}
+                        type="button"
+                        onClick={() => setChatMode(mode.value)}
+                        className={`flex items-center px-5 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                          chatMode === mode.value
+                            ? "bg-gradient-to-r from-purple-500 to-blue-500 text-white"
+                            : "text-gray-300 hover:text-white"
+                        }`}
+                      >
+                        {mode.value === "text" && <MessageCircle className="w-4 h-4 mr-2" />}
+                        {mode.value === "voice" && <Mic className="w-4 h-4 mr-2" />}
+                        {mode.value === "video" && <Video className="w-4 h-4 mr-2" />}
+                        {mode.label}
+                      </button>
+                    ))}
+                  </div>
+                  {chatMode === "video" && (
+                    <div className="mt-3">
+                      <Button
+                        variant="link"
+                        onClick={() => setIsCheckingCamera((prev) => !prev)}
+                        className="text-gray-300 hover:text-white"
+                      >
+                        <Sparkles className="w-4 h-4 mr-2" />
+                        {isCheckingCamera ? "Done" : "Check camera & background"}
+                      </Button>
+                      {isCheckingCamera && <CameraCheck />}
+                    </div>
+                  )}
+                </div>
+                <div className="mb-8">
+                  <p className="text-gray-300 text-sm mb-3">Pick your interests (optional)</p>
+                  <div className="flex flex-wrap justify-center gap-2 max-w-lg mx-auto">
+                    {INTEREST_TAGS.map((tag) => (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={() => toggleInterest(tag)}
+                        className={`px-4 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                          interests.includes(tag)
+                            ? "bg-gradient-to-r from-purple-500 to-blue-500 border-transparent text-white"
+                            : "bg-white/10 border-white/20 text-gray-300 hover:bg-white/20"
+                        }`}
+                      >
+                        {tag}
+                      </button>
+                    ))}
+                  </div>
+                </div>
                 <Button
                   onClick={findMatch}
                   size="lg"
@@ -328,6 +567,49 @@ export default function ChatInterface({ currentUser }: { currentUser: User }) {
                   <Search className="w-6 h-6 mr-3" />
                   Find Someone to Chat
                 </Button>
+
+                <div className="mt-10 pt-8 border-t border-white/10">
+                  <p className="text-gray-300 text-sm mb-4">
+                    Or video chat with up to {MAX_GROUP_PARTICIPANTS} students in a group room
+                  </p>
+                  <div className="flex flex-col sm:flex-row items-center justify-center gap-3 max-w-lg mx-auto">
+                    <Button
+                      variant="outline"
+                      onClick={createGroupRoom}
+                      className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                    >
+                      <UserPlus className="w-4 h-4 mr-2" />
+                      Start Group Room
+                    </Button>
+                    <form onSubmit={joinGroupRoom} className="flex flex-1 space-x-2 w-full">
+                      <Input
+                        value={roomCode}
+                        onChange={(e) => setRoomCode(e.target.value)}
+                        placeholder="Room code"
+                        className="flex-1 bg-white/10 border-white/20 text-white placeholder-gray-400 focus:border-purple-400 focus:ring-purple-400"
+                      />
+                      <Button
+                        type="submit"
+                        variant="outline"
+                        className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                      >
+                        Join
+                      </Button>
+                    </form>
+                  </div>
+                  {groupError && <p className="text-red-400 text-sm mt-3">{groupError}</p>}
+                </div>
+
+                <ContactsList currentUser={currentUser} onOpenRoom={openDirectRoom} />
+
+                <Button
+                  variant="link"
+                  onClick={() => setIsInEvent(true)}
+                  className="mt-6 text-gray-300 hover:text-white"
+                >
+                  <CalendarClock className="w-4 h-4 mr-2" />
+                  Speed networking events
+                </Button>
               </CardContent>
             </Card>
           </div>
@@ -343,7 +625,31 @@ export default function ChatInterface({ currentUser }: { currentUser: User }) {
                   </div>
                   <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-purple-400 mx-auto mb-6"></div>
                   <h2 className="text-3xl font-bold text-white mb-4">Finding Your Match...</h2>
-                  <p className="text-gray-300 text-lg mb-8">We're connecting you with another verified student</p>
+                  <p className="text-gray-300 text-lg mb-8">
+                    {interests.length > 0
+                      ? `Looking for students into ${interests.join(", ")}`
+                      : "We're connecting you with another verified student"}
+                  </p>
+                  {queueStatus && (
+                    <div className="grid grid-cols-3 gap-4 max-w-md mx-auto mb-8">
+                      <div className="bg-white/10 rounded-xl p-3">
+                        <div className="text-2xl font-bold text-white">{queueStatus.queue_size}</div>
+                        <div className="text-gray-400 text-xs">in queue</div>
+                      </div>
+                      <div className="bg-white/10 rounded-xl p-3">
+                        <div className="text-2xl font-bold text-white">
+                          {queueStatus.queue_position !== null ? `#${queueStatus.queue_position}` : "-"}
+                        </div>
+                        <div className="text-gray-400 text-xs">your position</div>
+                      </div>
+                      <div className="bg-white/10 rounded-xl p-3 flex flex-col justify-center">
+                        <div className="text-sm font-semibold text-white">
+                          {formatWaitEstimate(queueStatus.estimated_wait_seconds)}
+                        </div>
+                        <div className="text-gray-400 text-xs">estimated wait</div>
+                      </div>
+                    </div>
+                  )}
                   <Button
                     variant="outline"
                     onClick={stopSearching}
@@ -360,21 +666,100 @@ export default function ChatInterface({ currentUser }: { currentUser: User }) {
         {chatRoom && (
           <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 h-[85vh]">
             {/* Video Call Area */}
-            <div className="lg:col-span-3">
+            <div className={chatRoom.chat_mode === "text" ? "lg:col-span-2" : "lg:col-span-3"}>
               <Card className="h-full bg-black/20 backdrop-blur-lg border-white/20 shadow-2xl">
                 <CardHeader className="flex-row items-center justify-between space-y-0 pb-4 border-b border-white/10">
                   <CardTitle className="text-xl font-bold text-white flex items-center space-x-3">
-                    <div className="w-3 h-3 bg-green-400 rounded-full animate-pulse"></div>
-                    <span>Video Chat with {otherUser}</span>
+                    <div
+                      className={`w-3 h-3 rounded-full ${partnerLeft ? "bg-red-400" : "bg-green-400 animate-pulse"}`}
+                    ></div>
+                    {chatRoom.is_group ? (
+                      <>
+                        <span>
+                          Group Room • {participants.length}/{chatRoom.max_participants}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={copyRoomCode}
+                          title="Copy room code"
+                          className="flex items-center space-x-1 text-xs font-normal text-gray-300 hover:text-white"
+                        >
+                          <Copy className="w-3 h-3" />
+                          <span>Copy room code</span>
+                        </button>
+                      </>
+                    ) : (
+                      <span>
+                        {partnerLeft
+                          ? `${otherUser} left the chat`
+                          : chatRoom.chat_mode === "text"
+                            ? `Chatting with ${otherUser}`
+                            : chatRoom.chat_mode === "voice"
+                              ? `Voice Chat with ${otherUser}`
+                              : `Video Chat with ${otherUser}`}
+                      </span>
+                    )}
+                    {chatRoom.shared_interests?.map((tag) => (
+                      <span
+                        key={tag}
+                        className="px-2 py-0.5 rounded-full bg-purple-500/30 border border-purple-400/40 text-purple-100 text-xs font-medium"
+                      >
+                        {tag}
+                      </span>
+                    ))}
                   </CardTitle>
                   <div className="flex space-x-2">
-                    <Button
-                      onClick={startVideoCall}
-                      className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white"
-                    >
-                      <Phone className="w-4 h-4 mr-2" />
-                      Start Video Call
-                    </Button>
+                    {chatRoom.chat_mode !== "text" && (
+                      <Button
+                        onClick={startVideoCall}
+                        disabled={partnerLeft}
+                        className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white"
+                      >
+                        <Phone className="w-4 h-4 mr-2" />
+                        {chatRoom.chat_mode === "voice" ? "Start Voice Call" : "Start Video Call"}
+                      </Button>
+                    )}
+                    {chatRoom.chat_mode !== "video" && (
+                      <Button
+                        onClick={requestVideoUpgrade}
+                        disabled={partnerLeft || upgradeRequested}
+                        className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white"
+                      >
+                        <Video className="w-4 h-4 mr-2" />
+                        {upgradeRequested
+                          ? `Waiting for ${otherUser}...`
+                          : chatRoom.video_upgrade_requested_by.length > 0
+                            ? "Accept Video"
+                            : "Upgrade to Video"}
+                      </Button>
+                    )}
+                    {!chatRoom.is_group && !chatRoom.is_direct && (
+                      <>
+                        <ConnectButton
+                          roomId={chatRoom.id}
+                          userId={currentUser.id}
+                          className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white"
+                        />
+                        <Button
+                          onClick={nextPartner}
+                          className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white"
+                        >
+                          <SkipForward className="w-4 h-4 mr-2" />
+                          Next
+                        </Button>
+                      </>
+                    )}
+                    {!chatRoom.is_group && (
+                      <Button
+                        variant="outline"
+                        onClick={blockPartner}
+                        title={`Block ${otherUser}`}
+                        className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                      >
+                        <Ban className="w-4 h-4 mr-2" />
+                        Block
+                      </Button>
+                    )}
                     <Button
                       variant="destructive"
                       onClick={endChat}
@@ -388,17 +773,49 @@ export default function ChatInterface({ currentUser }: { currentUser: User }) {
                 <CardContent className="flex-1 flex items-center justify-center bg-gradient-to-br from-gray-900 to-black rounded-lg m-4">
                   <div className="text-center">
                     <div className="mx-auto w-32 h-32 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full flex items-center justify-center mb-6 opacity-50">
-                      <Video className="w-16 h-16 text-white" />
+                      {chatRoom.chat_mode === "text" ? (
+                        <MessageCircle className="w-16 h-16 text-white" />
+                      ) : chatRoom.chat_mode === "voice" ? (
+                        <Mic className="w-16 h-16 text-white" />
+                      ) : (
+                        <Video className="w-16 h-16 text-white" />
+                      )}
                     </div>
-                    <p className="text-gray-300 text-xl mb-4">Ready for video chat</p>
-                    <p className="text-gray-500">Click "Start Video Call" to begin your conversation</p>
+                    {chatRoom.chat_mode === "text" ? (
+                      <>
+                        <p className="text-gray-300 text-xl mb-4">Text-only chat</p>
+                        <p className="text-gray-500">Your camera stays off. You can both agree to upgrade to video.</p>
+                      </>
+                    ) : chatRoom.chat_mode === "voice" ? (
+                      <>
+                        <p className="text-gray-300 text-xl mb-4">Ready for voice chat</p>
+                        <p className="text-gray-500">Click "Start Voice Call" to begin your conversation</p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-gray-300 text-xl mb-4">Ready for video chat</p>
+                        <p className="text-gray-500">Click "Start Video Call" to begin your conversation</p>
+                      </>
+                    )}
+                    {chatRoom.is_group && (
+                      <div className="flex flex-wrap justify-center gap-2 mt-6">
+                        {participants.map((participant) => (
+                          <span
+                            key={participant.user_id}
+                            className="px-3 py-1 rounded-full bg-white/10 text-gray-200 text-sm"
+                          >
+                            {participant.user_id === currentUser.id ? "You" : participant.username}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
             </div>
 
             {/* Chat Area */}
-            <div className="lg:col-span-1">
+            <div className={chatRoom.chat_mode === "text" ? "lg:col-span-2" : "lg:col-span-1"}>
               <Card className="h-full bg-white/10 backdrop-blur-lg border-white/20 shadow-2xl flex flex-col">
                 <CardHeader className="border-b border-white/10 pb-4">
                   <CardTitle className="text-lg font-bold text-white flex items-center space-x-2">
@@ -4,12 +4,28 @@ import type React from "react"
 
 import { useState, useEffect, useRef } from "react"
 import { supabase } from "@/lib/supabase"
+import {
+  CAMPUS_PREFERENCES,
+  CHAT_MODES,
+  INTEREST_TAGS,
+  formatWaitEstimate,
+  normalizeCourseCode,
+  type CampusPreference,
+  type ChatMode,
+} from "@/lib/matchmaking"
+import { useMatchmaking } from "@/hooks/use-matchmaking"
+import { useRoomHeartbeat } from "@/hooks/use-room-heartbeat"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
 import VideoCall from "@/components/video/video-call"
-import { Video, MessageCircle, Users, LogOut } from "lucide-react"
+import ConnectButton from "@/components/connect-button"
+import ContactsList, { type DirectRoom } from "@/components/contacts-list"
+import { Video, MessageCircle, Users, LogOut, ShieldCheck, SkipForward, BookOpen, Ban, Phone } from "lucide-react"
 
 interface Message {
   id: string
@@ -21,11 +37,25 @@ interface Message {
 
 interface ChatRoom {
   id: string
-  user1_id: string
-  user2_id: string
+  user1_id: string | null
+  user2_id: string | null
+  user1_username: string | null
+  user2_username: string | null
+  user1_college_domain: string | null
+  user2_college_domain: string | null
+  shared_interests: string[]
+  course_code: string | null
+  is_direct: boolean
+  chat_mode: ChatMode
+  video_upgrade_requested_by: string[]
   is_active: boolean
 }
 
+interface LastPartner {
+  roomId: string
+  username: string | null
+}
+
 interface User {
   id: string
   display_name: string
@@ -37,11 +67,24 @@ export default function ChatInterface() {
   const [chatRoom, setChatRoom] = useState<ChatRoom | null>(null)
   const [messages, setMessages] = useState<Message[]>([])
   const [newMessage, setNewMessage] = useState("")
-  const [isSearching, setIsSearching] = useState(false)
   const [isInVideoCall, setIsInVideoCall] = useState(false)
   const [onlineCount, setOnlineCount] = useState(0)
+  const [interests, setInterests] = useState<string[]>([])
+  const [campusPreference, setCampusPreference] = useState<CampusPreference>("any")
+  const [chatMode, setChatMode] = useState<ChatMode>("video")
+  const [partnerLeft, setPartnerLeft] = useState(false)
+  const [studyMode, setStudyMode] = useState(false)
+  const [courseInput, setCourseInput] = useState("")
+  const [lastPartner, setLastPartner] = useState<LastPartner | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
+  useRoomHeartbeat(chatRoom?.id)
+
+  // Study mode only matches classmates queued for one of these courses
+  const courseCodes = studyMode
+    ? Array.from(new Set(courseInput.split(",").map(normalizeCourseCode).filter(Boolean)))
+    : []
+
   useEffect(() => {
     initializeUser()
     getOnlineCount()
@@ -49,9 +92,16 @@ export default function ChatInterface() {
 
   useEffect(() => {
     if (chatRoom) {
-      subscribeToMessages()
+      return subscribeToMessages()
     }
-  }, [chatRoom])
+  }, [chatRoom?.id])
+
+  useEffect(() => {
+    // Both sides accepted an upgrade from text or voice
+    if (chatRoom?.chat_mode === "video" && chatRoom.video_upgrade_requested_by.length > 0) {
+      setIsInVideoCall(true)
+    }
+  }, [chatRoom?.chat_mode])
 
   useEffect(() => {
     scrollToBottom()
@@ -89,54 +139,39 @@ export default function ChatInterface() {
     }
   }
 
+  const joinRoom = (room: ChatRoom) => {
+    setChatRoom(room)
+    setPartnerLeft(false)
+  }
+
+  const { isSearching, queueStatus, findMatch: searchForMatch, stopSearching } = useMatchmaking<ChatRoom>(
+    currentUser?.id,
+    joinRoom,
+  )
+
   const findMatch = async () => {
     if (!currentUser) return
 
-    setIsSearching(true)
+    // Interests and campus preference are hidden in study mode, so choices left over from before don't count
+    await searchForMatch({
+      username: currentUser.display_name,
+      interests: studyMode ? [] : interests,
+      campusPreference: studyMode ? "any" : campusPreference,
+      courseCodes,
+      chatMode,
+    })
+  }
 
-    try {
-      // Add user to waiting queue
-      await supabase.from("waiting_queue").upsert({ user_id: currentUser.id })
-
-      // Look for another user in queue
-      const { data: waitingUsers } = await supabase
-        .from("waiting_queue")
-        .select("user_id")
-        .neq("user_id", currentUser.id)
-        .limit(1)
-
-      if (waitingUsers && waitingUsers.length > 0) {
-        const matchedUserId = waitingUsers[0].user_id
-
-        // Create chat room
-        const { data: room } = await supabase
-          .from("chat_rooms")
-          .insert({
-            user1_id: currentUser.id,
-            user2_id: matchedUserId,
-            is_active: true,
-          })
-          .select()
-          .single()
-
-        if (room) {
-          setChatRoom(room)
-
-          // Remove both users from waiting queue
-          await supabase.from("waiting_queue").delete().in("user_id", [currentUser.id, matchedUserId])
-        }
-      } else {
-        // Wait for a match
-        setTimeout(() => {
-          if (isSearching) {
-            findMatch()
-          }
-        }, 2000)
-      }
-    } catch (error) {
-      console.error("Error finding match:", error)
-      setIsSearching(false)
-    }
+  const openDirectRoom = (room: DirectRoom, withVideo: boolean) => {
+    // Direct rooms are never course or campus matches
+    setChatRoom({ user1_college_domain: null, user2_college_domain: null, course_code: null, ...room })
+    setPartnerLeft(false)
+    setLastPartner(null)
+    setIsInVideoCall(withVideo)
+  }
+
+  const toggleInterest = (tag: string) => {
+    setInterests((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]))
   }
 
   const subscribeToMessages = () => {
@@ -156,6 +191,24 @@ export default function ChatInterface() {
           setMessages((prev) => [...prev, payload.new as Message])
         },
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "chat_rooms",
+          filter: `id=eq.${chatRoom.id}`,
+        },
+        (payload) => {
+          const room = payload.new as ChatRoom
+          // The other side ended the chat or moved on with Next
+          if (!room.is_active) {
+            setPartnerLeft(true)
+            setIsInVideoCall(false)
+          }
+          setChatRoom((prev) => prev && { ...prev, ...room })
+        },
+      )
       .subscribe()
 
     // Load existing messages
@@ -202,6 +255,22 @@ export default function ChatInterface() {
     }
   }
 
+  const upgradeRequested = !!currentUser && !!chatRoom?.video_upgrade_requested_by.includes(currentUser.id)
+
+  const requestVideoUpgrade = async () => {
+    if (!chatRoom) return
+
+    try {
+      const { data: room, error } = await supabase.rpc("request_video_upgrade", { p_room_id: chatRoom.id })
+
+      if (error) throw error
+
+      setChatRoom((prev) => prev && { ...prev, ...room })
+    } catch (error) {
+      console.error("Error requesting video upgrade:", error)
+    }
+  }
+
   const startVideoCall = () => {
     setIsInVideoCall(true)
   }
@@ -214,20 +283,47 @@ export default function ChatInterface() {
     if (!chatRoom) return
 
     try {
-      await supabase
-        .from("chat_rooms")
-        .update({ is_active: false, ended_at: new Date().toISOString() })
-        .eq("id", chatRoom.id)
+      await supabase.rpc("end_room", { p_room_id: chatRoom.id })
+
+      // Either side can still press Connect after the chat is over
+      const partnerName = chatRoom.user1_id === currentUser?.id ? chatRoom.user2_username : chatRoom.user1_username
+      setLastPartner(chatRoom.is_direct ? null : { roomId: chatRoom.id, username: partnerName })
 
       setChatRoom(null)
       setMessages([])
       setIsInVideoCall(false)
-      setIsSearching(false)
+      setPartnerLeft(false)
     } catch (error) {
       console.error("Error ending chat:", error)
     }
   }
 
+  const blockPartner = async () => {
+    if (!chatRoom || !currentUser) return
+
+    const isUser1 = chatRoom.user1_id === currentUser.id
+
+    try {
+      const { error } = await supabase.rpc("block_user", {
+        p_blocked_id: isUser1 ? chatRoom.user2_id : chatRoom.user1_id,
+        p_blocked_username: isUser1 ? chatRoom.user2_username : chatRoom.user1_username,
+      })
+
+      if (error) throw error
+
+      await endChat()
+      setLastPartner(null)
+    } catch (error) {
+      console.error("Error blocking user:", error)
+    }
+  }
+
+  const nextPartner = async () => {
+    // Recent partners are excluded by matchmaking, so this won't rematch the same person
+    await endChat()
+    await findMatch()
+  }
+
   const logout = async () => {
     if (currentUser) {
       await supabase.from("users").update({ is_online: false }).eq("id", currentUser.id)
@@ -241,21 +337,26 @@ export default function ChatInterface() {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
   }
 
-  const stopSearching = async () => {
-    setIsSearching(false)
-    if (currentUser) {
-      await supabase.from("waiting_queue").delete().eq("user_id", currentUser.id)
-    }
-  }
-
   if (!currentUser) {
     return <div>Loading...</div>
   }
 
+  const partnerCollege = chatRoom
+    ? chatRoom.user1_id === currentUser.id
+      ? chatRoom.user2_college_domain
+      : chatRoom.user1_college_domain
+    : null
+
   if (isInVideoCall && chatRoom) {
     return (
       <div className="h-screen">
-        <VideoCall roomId={chatRoom.id} isInitiator={chatRoom.user1_id === currentUser.id} onEndCall={endVideoCall} />
+        <VideoCall
+          key={chatRoom.chat_mode}
+          roomId={chatRoom.id}
+          isInitiator={chatRoom.user1_id === currentUser.id}
+          audioOnly={chatRoom.chat_mode === "voice"}
+          onEndCall={endVideoCall}
+        />
       </div>
     )
   }
@@ -287,12 +388,103 @@ export default function ChatInterface() {
         {!chatRoom && !isSearching && (
           <Card className="text-center">
             <CardContent className="py-8">
+              {lastPartner && (
+                <div className="flex items-center justify-between bg-gray-100 rounded-lg px-4 py-3 mb-6 max-w-lg mx-auto">
+                  <span className="text-sm text-gray-600">
+                    Keep in touch with <span className="font-semibold text-gray-900">{lastPartner.username}</span>?
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    <ConnectButton roomId={lastPartner.roomId} userId={currentUser.id} />
+                    <Button variant="ghost" size="sm" onClick={() => setLastPartner(null)}>
+                      Dismiss
+                    </Button>
+                  </div>
+                </div>
+              )}
               <h2 className="text-2xl font-bold mb-4">Ready to meet someone new?</h2>
               <p className="text-gray-600 mb-6">Connect with other college students for text and video chat</p>
-              <Button onClick={findMatch} size="lg">
+              <div className="mb-6">
+                <p className="text-sm text-gray-600 mb-2">How do you want to chat?</p>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={chatMode}
+                  onValueChange={(value) => value && setChatMode(value as ChatMode)}
+                >
+                  {CHAT_MODES.map(({ value, label }) => (
+                    <ToggleGroupItem key={value} value={value}>
+                      {label}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+              <div className="flex items-center justify-center space-x-2 mb-6">
+                <Switch id="study-mode" checked={studyMode} onCheckedChange={setStudyMode} />
+                <Label htmlFor="study-mode">Study mode</Label>
+              </div>
+              {studyMode ? (
+                <div className="mb-6 max-w-sm mx-auto">
+                  <p className="text-sm text-gray-600 mb-2">
+                    Find a study buddy at {currentUser.college_domain} taking the same course
+                  </p>
+                  <Input
+                    value={courseInput}
+                    onChange={(e) => setCourseInput(e.target.value)}
+                    placeholder="Course codes, e.g. CS 101, MATH 221"
+                  />
+                  {courseCodes.length > 0 && (
+                    <div className="flex flex-wrap justify-center gap-2 mt-2">
+                      {courseCodes.map((code) => (
+                        <Badge key={code} variant="secondary">
+                          {code}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <div className="mb-6">
+                    <p className="text-sm text-gray-600 mb-2">Who do you want to meet?</p>
+                    <ToggleGroup
+                      type="single"
+                      variant="outline"
+                      value={campusPreference}
+                      onValueChange={(value) => value && setCampusPreference(value as CampusPreference)}
+                    >
+                      {CAMPUS_PREFERENCES.map(({ value, label }) => (
+                        <ToggleGroupItem key={value} value={value}>
+                          {label}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </div>
+                  <div className="mb-6">
+                    <p className="text-sm text-gray-600 mb-2">Pick your interests (optional)</p>
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {INTEREST_TAGS.map((tag) => (
+                        <Badge
+                          key={tag}
+                          variant={interests.includes(tag) ? "default" : "outline"}
+                          className="cursor-pointer"
+                          onClick={() => toggleInterest(tag)}
+                        >
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                </>
+              )}
+              <Button onClick={findMatch} size="lg" disabled={studyMode && courseCodes.length === 0}>
                 <MessageCircle className="w-4 h-4 mr-2" />
                 Start Chatting
               </Button>
+              <ContactsList
+                currentUser={{ id: currentUser.id, username: currentUser.display_name }}
+                onOpenRoom={openDirectRoom}
+                theme="light"
+              />
             </CardContent>
           </Card>
         )}
@@ -301,8 +493,26 @@ export default function ChatInterface() {
           <Card className="text-center">
             <CardContent className="py-8">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-4"></div>
-              <h2 className="text-xl font-bold mb-2">Finding someone to chat with...</h2>
+              <h2 className="text-xl font-bold mb-2">
+                {courseCodes.length > 0
+                  ? `Finding classmates in ${courseCodes.join(", ")}...`
+                  : "Finding someone to chat with..."}
+              </h2>
               <p className="text-gray-600 mb-4">This might take a moment</p>
+              {!studyMode && campusPreference !== "any" && (
+                <p className="text-sm text-gray-500 mb-4">
+                  {campusPreference === "same"
+                    ? `Only students from ${currentUser.college_domain} are matched; pick "Anyone" for a faster match`
+                    : `Only students from other colleges are matched; pick "Anyone" for a faster match`}
+                </p>
+              )}
+              {queueStatus && (
+                <div className="flex justify-center space-x-6 text-sm text-gray-600 mb-4">
+                  <span>{queueStatus.queue_size} in queue</span>
+                  {queueStatus.queue_position !== null && <span>You're #{queueStatus.queue_position}</span>}
+                  <span>{formatWaitEstimate(queueStatus.estimated_wait_seconds)}</span>
+                </div>
+              )}
               <Button variant="outline" onClick={stopSearching}>
                 Cancel
               </Button>
@@ -313,11 +523,60 @@ export default function ChatInterface() {
         {chatRoom && (
           <Card className="h-[600px] flex flex-col">
             <CardHeader className="flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-lg">Chat Room</CardTitle>
+              <div className="flex items-center space-x-2">
+                <CardTitle className="text-lg">{partnerLeft ? "Your partner left the chat" : "Chat Room"}</CardTitle>
+                {chatRoom.course_code && (
+                  <Badge className="flex items-center space-x-1">
+                    <BookOpen className="w-3 h-3" />
+                    <span>{chatRoom.course_code}</span>
+                  </Badge>
+                )}
+                {partnerCollege && (
+                  <Badge variant="outline" className="flex items-center space-x-1 border-green-500 text-green-700">
+                    <ShieldCheck className="w-3 h-3" />
+                    <span>{partnerCollege}</span>
+                  </Badge>
+                )}
+                {chatRoom.shared_interests?.map((tag) => (
+                  <Badge key={tag} variant="secondary">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
               <div className="flex space-x-2">
-                <Button variant="outline" size="sm" onClick={startVideoCall}>
-                  <Video className="w-4 h-4 mr-1" />
-                  Video Call
+                {!chatRoom.is_direct && <ConnectButton roomId={chatRoom.id} userId={currentUser.id} />}
+                {chatRoom.chat_mode !== "text" && (
+                  <Button variant="outline" size="sm" onClick={startVideoCall} disabled={partnerLeft}>
+                    {chatRoom.chat_mode === "voice" ? (
+                      <Phone className="w-4 h-4 mr-1" />
+                    ) : (
+                      <Video className="w-4 h-4 mr-1" />
+                    )}
+                    {chatRoom.chat_mode === "voice" ? "Voice Call" : "Video Call"}
+                  </Button>
+                )}
+                {chatRoom.chat_mode !== "video" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={requestVideoUpgrade}
+                    disabled={partnerLeft || upgradeRequested}
+                  >
+                    <Video className="w-4 h-4 mr-1" />
+                    {upgradeRequested
+                      ? "Waiting for them..."
+                      : chatRoom.video_upgrade_requested_by.length > 0
+                        ? "Accept Video"
+                        : "Upgrade to Video"}
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={nextPartner}>
+                  <SkipForward className="w-4 h-4 mr-1" />
+                  Next
+                </Button>
+                <Button variant="outline" size="sm" onClick={blockPartner}>
+                  <Ban className="w-4 h-4 mr-1" />
+                  Block
                 </Button>
                 <Button variant="destructive" size="sm" onClick={endChat}>
                   End Chat
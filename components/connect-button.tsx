@@ -0,0 +1,93 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import { Button } from "@/components/ui/button"
+import { Check, UserPlus } from "lucide-react"
+
+interface ConnectButtonProps {
+  roomId: string
+  userId: string
+  className?: string
+}
+
+interface ConnectionRequest {
+  requester_id: string
+}
+
+// Both people in a 1:1 room have to press Connect before they become contacts
+export default function ConnectButton({ roomId, userId, className }: ConnectButtonProps) {
+  const [requesterIds, setRequesterIds] = useState<string[]>([])
+  const [isSending, setIsSending] = useState(false)
+
+  useEffect(() => {
+    loadRequests()
+
+    const channel = supabase
+      .channel(`connect-${roomId}-${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "connection_requests",
+          filter: `room_id=eq.${roomId}`,
+        },
+        (payload) => {
+          const { requester_id } = payload.new as ConnectionRequest
+          setRequesterIds((prev) => (prev.includes(requester_id) ? prev : [...prev, requester_id]))
+        },
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [roomId, userId])
+
+  const loadRequests = async () => {
+    try {
+      const { data } = await supabase.from("connection_requests").select("requester_id").eq("room_id", roomId)
+
+      if (data) {
+        setRequesterIds(data.map((request) => request.requester_id))
+      }
+    } catch (error) {
+      console.error("Error loading connection requests:", error)
+    }
+  }
+
+  const requestConnection = async () => {
+    setIsSending(true)
+
+    try {
+      const { error } = await supabase.rpc("request_connection", { p_room_id: roomId })
+      if (error) throw error
+
+      setRequesterIds((prev) => (prev.includes(userId) ? prev : [...prev, userId]))
+    } catch (error) {
+      console.error("Error requesting connection:", error)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const requested = requesterIds.includes(userId)
+  const partnerRequested = requesterIds.some((id) => id !== userId)
+
+  if (requested && partnerRequested) {
+    return (
+      <Button disabled className={className}>
+        <Check className="w-4 h-4 mr-2" />
+        Connected
+      </Button>
+    )
+  }
+
+  return (
+    <Button onClick={requestConnection} disabled={requested || isSending} className={className}>
+      <UserPlus className="w-4 h-4 mr-2" />
+      {requested ? "Waiting for them..." : partnerRequested ? "Accept Connect" : "Connect"}
+    </Button>
+  )
+}
@@ -0,0 +1,283 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import type { ChatMode } from "@/lib/matchmaking"
+import { Button } from "@/components/ui/button"
+import { MessageCircle, Phone, PhoneIncoming, UserMinus, Users } from "lucide-react"
+
+export interface DirectRoom {
+  id: string
+  user1_id: string | null
+  user2_id: string | null
+  user1_username: string | null
+  user2_username: string | null
+  shared_interests: string[]
+  is_group: boolean
+  is_direct: boolean
+  max_participants: number
+  chat_mode: ChatMode
+  video_upgrade_requested_by: string[]
+  is_active: boolean
+}
+
+interface Friendship {
+  user_a_id: string
+  user_b_id: string
+  user_a_username: string | null
+  user_b_username: string | null
+}
+
+interface Contact {
+  userId: string
+  username: string | null
+  isOnline: boolean
+}
+
+interface User {
+  id: string
+  username: string
+}
+
+// The root page is dark and /chat is light
+const THEMES = {
+  dark: {
+    divider: "border-white/10",
+    text: "text-white",
+    muted: "text-gray-300",
+    row: "bg-white/10",
+    outline: "bg-white/10 border-white/20 text-white hover:bg-white/20",
+    ghost: "text-gray-300 hover:text-white hover:bg-white/10",
+    ghostDanger: "text-gray-400 hover:text-red-300 hover:bg-white/10",
+  },
+  light: {
+    divider: "border-gray-200",
+    text: "text-gray-900",
+    muted: "text-gray-600",
+    row: "bg-gray-100",
+    outline: "",
+    ghost: "text-gray-600 hover:text-gray-900",
+    ghostDanger: "text-gray-500 hover:text-red-600",
+  },
+}
+
+interface ContactsListProps {
+  currentUser: User
+  onOpenRoom: (room: DirectRoom, withVideo: boolean) => void
+  theme?: keyof typeof THEMES
+}
+
+export default function ContactsList({ currentUser, onOpenRoom, theme = "dark" }: ContactsListProps) {
+  const styles = THEMES[theme]
+  const [contacts, setContacts] = useState<Contact[]>([])
+  const [invites, setInvites] = useState<DirectRoom[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadContacts()
+    loadInvites()
+
+    // Friends open direct rooms with us as user2_id; any friendship change reloads the list
+    const channel = supabase
+      .channel(`contacts-${currentUser.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "chat_rooms",
+          filter: `user2_id=eq.${currentUser.id}`,
+        },
+        () => {
+          loadInvites()
+        },
+      )
+      .on("postgres_changes", { event: "*", schema: "public", table: "friendships" }, () => {
+        loadContacts()
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [currentUser.id])
+
+  const loadContacts = async () => {
+    try {
+      const { data: friendships } = await supabase
+        .from("friendships")
+        .select("user_a_id, user_b_id, user_a_username, user_b_username")
+        .or(`user_a_id.eq.${currentUser.id},user_b_id.eq.${currentUser.id}`)
+        .order("created_at", { ascending: false })
+
+      if (!friendships) return
+
+      const friends = (friendships as Friendship[]).map((friendship) =>
+        friendship.user_a_id === currentUser.id
+          ? { userId: friendship.user_b_id, username: friendship.user_b_username }
+          : { userId: friendship.user_a_id, username: friendship.user_a_username },
+      )
+
+      const { data: onlineUsers } = await supabase
+        .from("users")
+        .select("id")
+        .in("id", friends.map((friend) => friend.userId))
+        .eq("is_online", true)
+
+      const onlineIds = new Set((onlineUsers ?? []).map((user) => user.id))
+      setContacts(friends.map((friend) => ({ ...friend, isOnline: onlineIds.has(friend.userId) })))
+    } catch (error) {
+      console.error("Error loading contacts:", error)
+    }
+  }
+
+  const loadInvites = async () => {
+    try {
+      const { data } = await supabase
+        .from("chat_rooms")
+        .select("*")
+        .eq("user2_id", currentUser.id)
+        .eq("is_direct", true)
+        .eq("is_active", true)
+        .order("created_at", { ascending: false })
+
+      if (data) {
+        setInvites(data)
+      }
+    } catch (error) {
+      console.error("Error loading invites:", error)
+    }
+  }
+
+  const callContact = async (contact: Contact, withVideo: boolean) => {
+    setError(null)
+
+    try {
+      const { data: room, error } = await supabase.rpc("start_direct_room", { p_friend_id: contact.userId })
+
+      if (error) throw error
+
+      console.log("Opened direct room:", room)
+      onOpenRoom(room, withVideo)
+    } catch (error: any) {
+      console.error("Error starting direct room:", error)
+      setError(error.message || "Could not reach this contact")
+    }
+  }
+
+  const declineInvite = async (room: DirectRoom) => {
+    try {
+      const { error } = await supabase.rpc("end_room", { p_room_id: room.id })
+
+      if (error) throw error
+
+      setInvites((prev) => prev.filter((invite) => invite.id !== room.id))
+    } catch (error) {
+      console.error("Error declining invite:", error)
+    }
+  }
+
+  const removeContact = async (contact: Contact) => {
+    try {
+      const { error } = await supabase.rpc("remove_contact", { p_friend_id: contact.userId })
+
+      if (error) throw error
+
+      setContacts((prev) => prev.filter((c) => c.userId !== contact.userId))
+    } catch (error) {
+      console.error("Error removing contact:", error)
+    }
+  }
+
+  if (contacts.length === 0 && invites.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={`mt-10 pt-8 border-t ${styles.divider} text-left max-w-lg mx-auto`}>
+      {invites.map((invite) => (
+        <div
+          key={invite.id}
+          className="flex items-center justify-between bg-green-500/20 border border-green-400/40 rounded-xl px-4 py-3 mb-3"
+        >
+          <div className={`flex items-center space-x-2 ${styles.text}`}>
+            <PhoneIncoming className="w-4 h-4 text-green-300" />
+            <span className="text-sm">
+              <span className="font-semibold">{invite.user1_username}</span> wants to chat
+            </span>
+          </div>
+          <div className="flex space-x-2">
+            <Button
+              size="sm"
+              onClick={() => onOpenRoom(invite, false)}
+              className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white"
+            >
+              Join
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => declineInvite(invite)}
+              className={styles.outline}
+            >
+              Decline
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {contacts.length > 0 && (
+        <>
+          <p className={`${styles.muted} text-sm mb-3 flex items-center space-x-2`}>
+            <Users className="w-4 h-4" />
+            <span>Your contacts</span>
+          </p>
+          <div className="space-y-2">
+            {contacts.map((contact) => (
+              <div
+                key={contact.userId}
+                className={`flex items-center justify-between ${styles.row} rounded-xl px-4 py-2`}
+              >
+                <div className="flex items-center space-x-2">
+                  <div className={`w-2 h-2 rounded-full ${contact.isOnline ? "bg-green-400" : "bg-gray-500"}`}></div>
+                  <span className={`${styles.text} text-sm font-medium`}>{contact.username}</span>
+                </div>
+                <div className="flex space-x-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Chat"
+                    onClick={() => callContact(contact, false)}
+                    className={styles.ghost}
+                  >
+                    <MessageCircle className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Video call"
+                    onClick={() => callContact(contact, true)}
+                    className={styles.ghost}
+                  >
+                    <Phone className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Remove contact"
+                    onClick={() => removeContact(contact)}
+                    className={styles.ghostDanger}
+                  >
+                    <UserMinus className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-red-400 text-sm mt-3">{error}</p>}
+    </div>
+  )
+}
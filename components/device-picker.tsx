@@ -0,0 +1,105 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Settings2 } from "lucide-react"
+import type { AudioProcessing } from "@/lib/media-devices"
+
+interface DevicePickerProps {
+  devices: MediaDeviceInfo[]
+  audioInputId: string
+  videoInputId: string
+  audioOutputId: string
+  showCamera: boolean
+  showSpeaker: boolean
+  audioProcessing: AudioProcessing
+  onSelect: (kind: MediaDeviceKind, deviceId: string) => void
+  onAudioProcessingChange: (processing: AudioProcessing) => void
+}
+
+const DEVICE_KINDS: { kind: MediaDeviceKind; label: string }[] = [
+  { kind: "videoinput", label: "Camera" },
+  { kind: "audioinput", label: "Microphone" },
+  { kind: "audiooutput", label: "Speaker" },
+]
+
+const AUDIO_PROCESSING_OPTIONS: { key: keyof AudioProcessing; label: string }[] = [
+  { key: "noiseSuppression", label: "Noise suppression" },
+  { key: "echoCancellation", label: "Echo cancellation" },
+  { key: "autoGainControl", label: "Automatic volume" },
+]
+
+export default function DevicePicker({
+  devices,
+  audioInputId,
+  videoInputId,
+  audioOutputId,
+  showCamera,
+  showSpeaker,
+  audioProcessing,
+  onSelect,
+  onAudioProcessingChange,
+}: DevicePickerProps) {
+  const selected: Record<MediaDeviceKind, string> = {
+    audioinput: audioInputId,
+    videoinput: videoInputId,
+    audiooutput: audioOutputId,
+  }
+
+  const kinds = DEVICE_KINDS.filter(
+    ({ kind }) => (kind !== "videoinput" || showCamera) && (kind !== "audiooutput" || showSpeaker),
+  )
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="secondary"
+          size="lg"
+          title="Devices"
+          className="rounded-full w-16 h-16 bg-white/20 hover:bg-white/30 text-white border-white/20"
+        >
+          <Settings2 className="w-6 h-6" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="top" className="w-80 space-y-4">
+        {kinds.map(({ kind, label }) => {
+          // Labels stay empty until the page has been granted media permission
+          const options = devices.filter((device) => device.kind === kind && device.deviceId)
+          return (
+            <div key={kind} className="space-y-2">
+              <Label>{label}</Label>
+              <Select value={selected[kind] || undefined} onValueChange={(deviceId) => onSelect(kind, deviceId)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="System default" />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((device, index) => (
+                    <SelectItem key={device.deviceId} value={device.deviceId}>
+                      {device.label || `${label} ${index + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )
+        })}
+        <div className="space-y-2 pt-2 border-t">
+          {AUDIO_PROCESSING_OPTIONS.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between">
+              <Label htmlFor={`audio-${key}`}>{label}</Label>
+              <Switch
+                id={`audio-${key}`}
+                checked={audioProcessing[key]}
+                onCheckedChange={(checked) => onAudioProcessingChange({ ...audioProcessing, [key]: checked })}
+              />
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
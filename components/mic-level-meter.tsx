@@ -0,0 +1,68 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { MicOff } from "lucide-react"
+import type { LevelMeter } from "@/lib/audio-level"
+
+// The mic meter is read this often and drawn as this many bars
+const MIC_LEVEL_POLL_INTERVAL_MS = 100
+const MIC_LEVEL_BARS = 5
+
+// Talking into a muted mic for about this long (pauses between words count against it) shows a reminder
+const SPEAKING_LEVEL = 0.15
+const MUTED_SPEAKING_AFTER_MS = 1500
+
+interface MicLevelMeterProps {
+  meterRef: React.RefObject<LevelMeter | null>
+  muted: boolean
+  onMutedSpeakingChange: (speaking: boolean) => void
+}
+
+// Samples the mic itself so the level only re-renders these bars; the call hears about muted speech when it changes
+export default function MicLevelMeter({ meterRef, muted, onMutedSpeakingChange }: MicLevelMeterProps) {
+  const [level, setLevel] = useState(0)
+  const mutedSpeechMsRef = useRef(0)
+  const mutedSpeakingRef = useRef(false)
+
+  useEffect(() => {
+    const sample = () => {
+      const meter = meterRef.current
+      if (!meter) return
+
+      const current = meter.getLevel()
+      if (!muted) {
+        setLevel(Math.round(current * MIC_LEVEL_BARS))
+        mutedSpeechMsRef.current = 0
+      } else if (current >= SPEAKING_LEVEL) {
+        mutedSpeechMsRef.current += MIC_LEVEL_POLL_INTERVAL_MS
+      } else {
+        mutedSpeechMsRef.current = Math.max(0, mutedSpeechMsRef.current - MIC_LEVEL_POLL_INTERVAL_MS / 2)
+      }
+
+      const speaking =
+        mutedSpeechMsRef.current >= MUTED_SPEAKING_AFTER_MS || (mutedSpeakingRef.current && mutedSpeechMsRef.current > 0)
+      if (speaking !== mutedSpeakingRef.current) {
+        mutedSpeakingRef.current = speaking
+        onMutedSpeakingChange(speaking)
+      }
+    }
+
+    const interval = setInterval(sample, MIC_LEVEL_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [muted])
+
+  return muted ? <MicOff className="w-3 h-3 text-red-400" /> : <MicLevelBars level={level} />
+}
+
+// Live input level, lit from the left
+function MicLevelBars({ level }: { level: number }) {
+  return (
+    <div className="flex items-center space-x-0.5" title="Microphone level">
+      {Array.from({ length: MIC_LEVEL_BARS }, (_, bar) => (
+        <div key={bar} className={`w-1 h-2.5 rounded-sm ${bar < level ? "bg-green-400" : "bg-white/30"}`} />
+      ))}
+    </div>
+  )
+}
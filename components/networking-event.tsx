@@ -0,0 +1,483 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useRef } from "react"
+import type { RealtimeChannel } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabase"
+import { QUEUE_HEARTBEAT_INTERVAL_MS } from "@/lib/matchmaking"
+import { useRoomHeartbeat } from "@/hooks/use-room-heartbeat"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import VideoCall from "@/components/video-call"
+import ConnectButton from "@/components/connect-button"
+import { ArrowLeft, CalendarClock, Copy, Timer, Users } from "lucide-react"
+
+interface NetworkingEventRow {
+  id: string
+  title: string
+  organizer_id: string
+  starts_at: string
+  round_seconds: number
+  current_round: number
+  round_ends_at: string | null
+  status: "scheduled" | "running" | "finished"
+  finished_reason: "completed" | "not_enough_participants" | "ended_by_organizer" | null
+}
+
+interface EventRoom {
+  id: string
+  user1_id: string
+  user2_id: string
+  user1_username: string | null
+  user2_username: string | null
+  event_round: number
+}
+
+interface User {
+  id: string
+  username: string
+}
+
+interface NetworkingEventProps {
+  currentUser: User
+  onExit: () => void
+}
+
+export default function NetworkingEvent({ currentUser, onExit }: NetworkingEventProps) {
+  const [event, setEvent] = useState<NetworkingEventRow | null>(null)
+  const [room, setRoom] = useState<EventRoom | null>(null)
+  const [isInVideoCall, setIsInVideoCall] = useState(false)
+  const [lobbyCount, setLobbyCount] = useState(0)
+  const [now, setNow] = useState(Date.now())
+  const [title, setTitle] = useState("")
+  const [startsAt, setStartsAt] = useState("")
+  const [roundMinutes, setRoundMinutes] = useState("5")
+  const [eventCode, setEventCode] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const channelRef = useRef<RealtimeChannel | null>(null)
+  const heartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null)
+
+  useRoomHeartbeat(room?.id)
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  useEffect(() => {
+    return () => {
+      stopListening()
+    }
+  }, [])
+
+  // Whoever's timer fires first advances the round; advance_event_round ignores early or repeated calls
+  useEffect(() => {
+    if (!event || event.status === "finished") return
+
+    const dueAt = event.status === "scheduled" ? event.starts_at : event.round_ends_at
+    if (!dueAt) return
+
+    const jitter = Math.random() * 1000
+    const timeout = setTimeout(advanceRound, Math.max(0, new Date(dueAt).getTime() - Date.now()) + jitter)
+    return () => clearTimeout(timeout)
+  }, [event?.status, event?.starts_at, event?.round_ends_at])
+
+  const createEvent = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    try {
+      const { data: created, error: createError } = await supabase.rpc("create_networking_event", {
+        p_title: title.trim(),
+        p_starts_at: new Date(startsAt).toISOString(),
+        p_round_seconds: Math.round(Number(roundMinutes) * 60),
+      })
+
+      if (createError) throw createError
+
+      console.log("Created networking event:", created)
+      await joinEvent(created.id)
+    } catch (error: any) {
+      console.error("Error creating event:", error)
+      setError(error.message || "Could not create the event")
+    }
+  }
+
+  const joinEvent = async (eventId: string) => {
+    setError(null)
+
+    try {
+      const { data: joined, error: joinError } = await supabase.rpc("join_networking_event", {
+        p_event_id: eventId,
+        p_username: currentUser.username,
+      })
+
+      if (joinError) throw joinError
+
+      console.log("Joined networking event:", joined)
+      setEvent(joined)
+      listenToEvent(joined.id)
+      loadLobbyCount(joined.id)
+      loadRoundRoom(joined)
+    } catch (error: any) {
+      console.error("Error joining event:", error)
+      setError(error.message || "Could not join that event")
+    }
+  }
+
+  const listenToEvent = (eventId: string) => {
+    stopListening()
+
+    channelRef.current = supabase
+      .channel(`event-${eventId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "networking_events",
+          filter: `id=eq.${eventId}`,
+        },
+        (payload) => {
+          const updated = payload.new as NetworkingEventRow
+          setEvent(updated)
+          loadRoundRoom(updated)
+        },
+      )
+      .subscribe()
+
+    // Lobby entries use the same heartbeat as the waiting queue, so dropouts aren't paired. The head count
+    // is refreshed on the same beat, since the queue itself isn't readable.
+    heartbeatIntervalRef.current = setInterval(async () => {
+      const { data: queued, error } = await supabase.rpc("queue_heartbeat")
+      if (error) {
+        console.error("Error refreshing lobby entry:", error)
+      } else if (!queued) {
+        rejoinLobby(eventId)
+      }
+      loadLobbyCount(eventId)
+    }, QUEUE_HEARTBEAT_INTERVAL_MS)
+  }
+
+  // Our lobby entry was swept while we were away; the event may also have finished in the meantime
+  const rejoinLobby = async (eventId: string) => {
+    const { error } = await supabase.rpc("join_networking_event", {
+      p_event_id: eventId,
+      p_username: currentUser.username,
+    })
+    if (error) {
+      console.error("Error rejoining lobby:", error)
+      if (heartbeatIntervalRef.current) {
+        clearInterval(heartbeatIntervalRef.current)
+        heartbeatIntervalRef.current = null
+      }
+    }
+  }
+
+  const stopListening = () => {
+    if (heartbeatIntervalRef.current) {
+      clearInterval(heartbeatIntervalRef.current)
+      heartbeatIntervalRef.current = null
+    }
+    if (channelRef.current) {
+      supabase.removeChannel(channelRef.current)
+      channelRef.current = null
+    }
+  }
+
+  const loadLobbyCount = async (eventId: string) => {
+    try {
+      const { data: count, error } = await supabase.rpc("event_lobby_size", { p_event_id: eventId })
+      if (error) throw error
+      setLobbyCount(count || 0)
+    } catch (error) {
+      console.error("Error loading lobby count:", error)
+    }
+  }
+
+  const loadRoundRoom = async (current: NetworkingEventRow) => {
+    if (current.status !== "running") {
+      setRoom(null)
+      setIsInVideoCall(false)
+      return
+    }
+
+    try {
+      const { data } = await supabase
+        .from("chat_rooms")
+        .select("id, user1_id, user2_id, user1_username, user2_username, event_round")
+        .eq("event_id", current.id)
+        .eq("event_round", current.current_round)
+        .eq("is_active", true)
+        .or(`user1_id.eq.${currentUser.id},user2_id.eq.${currentUser.id}`)
+        .maybeSingle()
+
+      setRoom(data)
+      setIsInVideoCall(!!data)
+    } catch (error) {
+      console.error("Error loading round room:", error)
+    }
+  }
+
+  const advanceRound = async () => {
+    if (!event) return
+
+    const { data: advanced, error } = await supabase.rpc("advance_event_round", { p_event_id: event.id })
+    if (error) {
+      console.error("Error advancing round:", error)
+      return
+    }
+    setEvent(advanced)
+    loadRoundRoom(advanced)
+  }
+
+  const endEvent = async () => {
+    if (!event) return
+
+    const { error } = await supabase.rpc("end_networking_event", { p_event_id: event.id })
+    if (error) {
+      console.error("Error ending event:", error)
+      setError(error.message)
+    }
+  }
+
+  const leaveEvent = async () => {
+    stopListening()
+    if (event) {
+      await supabase.rpc("leave_networking_event", { p_event_id: event.id })
+    }
+    onExit()
+  }
+
+  const copyEventCode = async () => {
+    if (!event) return
+    try {
+      await navigator.clipboard.writeText(event.id)
+    } catch (error) {
+      console.error("Error copying event code:", error)
+    }
+  }
+
+  const formatCountdown = (until: string) => {
+    const seconds = Math.max(0, Math.ceil((new Date(until).getTime() - now) / 1000))
+    const mins = Math.floor(seconds / 60)
+    const secs = seconds % 60
+    return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
+  }
+
+  if (event && room && isInVideoCall) {
+    return (
+      <VideoCall
+        key={room.id}
+        roomId={room.id}
+        userId={currentUser.id}
+        username={currentUser.username}
+        endsAt={event.round_ends_at}
+        headerActions={
+          <ConnectButton
+            roomId={room.id}
+            userId={currentUser.id}
+            className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white"
+          />
+        }
+        onEndCall={() => setIsInVideoCall(false)}
+      />
+    )
+  }
+
+  const partnerName = room ? (room.user1_id === currentUser.id ? room.user2_username : room.user1_username) : null
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
+      <div className="bg-black/20 backdrop-blur-lg border-b border-white/10">
+        <div className="max-w-7xl mx-auto px-4 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-white">
+            Campus<span className="text-purple-400">Chat</span>
+            <span className="text-gray-300 text-lg font-medium ml-3">Speed Networking</span>
+          </h1>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={leaveEvent}
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {event ? "Leave Event" : "Back"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-w-2xl mx-auto p-6">
+        {!event && (
+          <div className="space-y-6">
+            <Card className="bg-white/10 backdrop-blur-lg border-white/20 shadow-2xl">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center space-x-2">
+                  <CalendarClock className="w-5 h-5" />
+                  <span>Schedule an event</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={createEvent} className="space-y-4">
+                  <Input
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder="Event title, e.g. Orientation Week Mixer"
+                    required
+                    className="bg-white/10 border-white/20 text-white placeholder-gray-400"
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                      <label htmlFor="event-start" className="block text-sm text-gray-300">
+                        Starts at
+                      </label>
+                      <Input
+                        id="event-start"
+                        type="datetime-local"
+                        value={startsAt}
+                        onChange={(e) => setStartsAt(e.target.value)}
+                        required
+                        className="bg-white/10 border-white/20 text-white"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label htmlFor="event-round-length" className="block text-sm text-gray-300">
+                        Round length (minutes)
+                      </label>
+                      <Input
+                        id="event-round-length"
+                        type="number"
+                        min={1}
+                        max={60}
+                        value={roundMinutes}
+                        onChange={(e) => setRoundMinutes(e.target.value)}
+                        required
+                        className="bg-white/10 border-white/20 text-white"
+                      />
+                    </div>
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white"
+                  >
+                    Create Event
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white/10 backdrop-blur-lg border-white/20 shadow-2xl">
+              <CardHeader>
+                <CardTitle className="text-white">Join an event</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    if (eventCode.trim()) joinEvent(eventCode.trim())
+                  }}
+                  className="flex space-x-2"
+                >
+                  <Input
+                    value={eventCode}
+                    onChange={(e) => setEventCode(e.target.value)}
+                    placeholder="Event code"
+                    className="flex-1 bg-white/10 border-white/20 text-white placeholder-gray-400"
+                  />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                  >
+                    Join
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            {error && <p className="text-red-400 text-sm text-center">{error}</p>}
+          </div>
+        )}
+
+        {event && (
+          <Card className="bg-white/10 backdrop-blur-lg border-white/20 shadow-2xl">
+            <CardContent className="py-12 text-center">
+              <h2 className="text-3xl font-bold text-white mb-2">{event.title}</h2>
+              <button
+                type="button"
+                onClick={copyEventCode}
+                className="inline-flex items-center space-x-1 text-xs text-gray-400 hover:text-white mb-8"
+              >
+                <Copy className="w-3 h-3" />
+                <span>Copy event code</span>
+              </button>
+
+              <div className="flex justify-center space-x-4 mb-8">
+                <div className="flex items-center space-x-2 bg-white/10 rounded-full px-4 py-2">
+                  <Users className="w-4 h-4 text-gray-300" />
+                  <span className="text-gray-300 text-sm font-medium">{lobbyCount} in lobby</span>
+                </div>
+                <div className="flex items-center space-x-2 bg-white/10 rounded-full px-4 py-2">
+                  <Timer className="w-4 h-4 text-gray-300" />
+                  <span className="text-gray-300 text-sm font-medium">
+                    {Math.round(event.round_seconds / 60)} min rounds
+                  </span>
+                </div>
+              </div>
+
+              {event.status === "scheduled" && (
+                <>
+                  <div className="text-5xl font-bold text-white mb-2">{formatCountdown(event.starts_at)}</div>
+                  <p className="text-gray-300">
+                    until the first round ({new Date(event.starts_at).toLocaleTimeString()})
+                  </p>
+                </>
+              )}
+
+              {event.status === "running" && event.round_ends_at && (
+                <>
+                  <p className="text-gray-300 mb-2">Round {event.current_round}</p>
+                  <div className="text-5xl font-bold text-white mb-4">{formatCountdown(event.round_ends_at)}</div>
+                  {room ? (
+                    <div className="space-y-4">
+                      <p className="text-gray-300">You're paired with {partnerName}</p>
+                      <Button
+                        onClick={() => setIsInVideoCall(true)}
+                        className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white"
+                      >
+                        Rejoin Call
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-gray-300">You're sitting out this round. Next pairing when the timer ends.</p>
+                  )}
+                </>
+              )}
+
+              {event.status === "finished" &&
+                (event.finished_reason === "not_enough_participants" ? (
+                  <p className="text-gray-300 text-lg">
+                    {event.organizer_id === currentUser.id
+                      ? "Your event didn't start because fewer than two people were in the lobby. Create a new one and share its event code again."
+                      : "This event didn't start because fewer than two people were in the lobby."}
+                  </p>
+                ) : (
+                  <p className="text-gray-300 text-lg">This event has finished. Thanks for joining!</p>
+                ))}
+
+              {event.organizer_id === currentUser.id && event.status !== "finished" && (
+                <Button variant="destructive" onClick={endEvent} className="mt-8">
+                  End Event
+                </Button>
+              )}
+
+              {error && <p className="text-red-400 text-sm mt-4">{error}</p>}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Button } from "@/components/ui/button"
+import { MicOff, RotateCcw, ScreenShare, VideoOff } from "lucide-react"
+import { setOutputDevice } from "@/lib/media-devices"
+import type { RemoteParticipant } from "@/hooks/use-peer-mesh"
+
+interface RemoteVideoGridProps {
+  participants: RemoteParticipant[]
+  // Output device for everyone's audio, where the browser lets us choose one
+  sinkId?: string
+  onRedial: (peerId: string) => void
+}
+
+// Everyone else in the call, in an even grid, or with a shared screen taking the stage
+export default function RemoteVideoGrid({ participants, sinkId, onRedial }: RemoteVideoGridProps) {
+  const presenter = participants.find((p) => p.screenSharing)
+
+  if (presenter) {
+    // Everyone but the presenter moves to a strip underneath
+    return (
+      <div className="flex flex-col h-full gap-2 p-2">
+        <div className="flex-1 min-h-0">
+          <RemoteVideoTile participant={presenter} sinkId={sinkId} onRedial={() => onRedial(presenter.userId)} />
+        </div>
+        {participants.length > 1 && (
+          <div className="flex gap-2 h-32">
+            {participants
+              .filter((participant) => participant.userId !== presenter.userId)
+              .map((participant) => (
+                <div key={participant.userId} className="w-48">
+                  <RemoteVideoTile
+                    participant={participant}
+                    sinkId={sinkId}
+                    onRedial={() => onRedial(participant.userId)}
+                  />
+                </div>
+              ))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className={`grid h-full gap-2 p-2 ${
+        participants.length <= 1 ? "grid-cols-1" : participants.length <= 4 ? "grid-cols-2" : "grid-cols-3"
+      }`}
+    >
+      {participants.map((participant) => (
+        <RemoteVideoTile
+          key={participant.userId}
+          participant={participant}
+          sinkId={sinkId}
+          onRedial={() => onRedial(participant.userId)}
+        />
+      ))}
+    </div>
+  )
+}
+
+interface RemoteVideoTileProps {
+  participant: RemoteParticipant
+  // Output device for this tile's audio, where the browser lets us choose one
+  sinkId?: string
+  onRedial: () => void
+}
+
+function RemoteVideoTile({ participant, sinkId, onRedial }: RemoteVideoTileProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+
+  useEffect(() => {
+    if (videoRef.current && participant.stream) {
+      videoRef.current.srcObject = participant.stream
+    }
+  }, [participant.stream])
+
+  useEffect(() => {
+    if (videoRef.current && sinkId) {
+      setOutputDevice(videoRef.current, sinkId)
+    }
+  }, [sinkId])
+
+  return (
+    <div className="relative h-full bg-black/50 rounded-xl overflow-hidden border border-white/10">
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        className={`w-full h-full ${participant.screenSharing ? "object-contain" : "object-cover"}`}
+        style={participant.screenSharing ? undefined : { transform: "scaleX(-1)" }}
+      />
+      {(!participant.stream ||
+        (!participant.videoEnabled && !participant.screenSharing) ||
+        participant.reconnecting ||
+        participant.reconnectFailed) && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/75">
+          {participant.reconnectFailed ? (
+            <div className="text-white text-center">
+              <div className="text-lg mb-2">Connection lost</div>
+              <Button size="sm" variant="secondary" onClick={onRedial}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Re-dial
+              </Button>
+            </div>
+          ) : participant.reconnecting ? (
+            <div className="text-white text-lg">Reconnecting...</div>
+          ) : participant.stream ? (
+            <VideoOff className="w-10 h-10 text-white" />
+          ) : (
+            <div className="text-white text-lg">Waiting for video...</div>
+          )}
+        </div>
+      )}
+      <div className="absolute bottom-2 left-2 flex items-center space-x-2 bg-black/50 backdrop-blur-sm text-white text-xs px-2 py-1 rounded">
+        {!participant.audioEnabled && <MicOff className="w-3 h-3 text-red-400" />}
+        {participant.screenSharing && <ScreenShare className="w-3 h-3 text-purple-300" />}
+        <span>{participant.username || "Student"}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { supabase } from "@/lib/supabase"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, Ban } from "lucide-react"
+
+interface BlockedUser {
+  blocked_id: string
+  blocked_username: string | null
+  created_at: string
+}
+
+interface User {
+  id: string
+  username: string
+}
+
+interface SettingsPageProps {
+  currentUser: User
+  onExit: () => void
+}
+
+export default function SettingsPage({ currentUser, onExit }: SettingsPageProps) {
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadBlockedUsers()
+  }, [])
+
+  const loadBlockedUsers = async () => {
+    try {
+      const { data } = await supabase
+        .from("blocks")
+        .select("blocked_id, blocked_username, created_at")
+        .eq("blocker_id", currentUser.id)
+        .order("created_at", { ascending: false })
+
+      if (data) {
+        setBlockedUsers(data)
+      }
+    } catch (error) {
+      console.error("Error loading blocked users:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const unblock = async (blockedUser: BlockedUser) => {
+    try {
+      const { error } = await supabase.rpc("unblock_user", { p_blocked_id: blockedUser.blocked_id })
+
+      if (error) throw error
+
+      setBlockedUsers((prev) => prev.filter((user) => user.blocked_id !== blockedUser.blocked_id))
+    } catch (error) {
+      console.error("Error unblocking user:", error)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
+      <div className="bg-black/20 backdrop-blur-lg border-b border-white/10">
+        <div className="max-w-7xl mx-auto px-4 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-white">
+            Campus<span className="text-purple-400">Chat</span>
+            <span className="text-gray-300 text-lg font-medium ml-3">Settings</span>
+          </h1>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onExit}
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-w-2xl mx-auto p-6">
+        <Card className="bg-white/10 backdrop-blur-lg border-white/20 shadow-2xl">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center space-x-2">
+              <Ban className="w-5 h-5" />
+              <span>Blocked students</span>
+            </CardTitle>
+            <p className="text-gray-300 text-sm">
+              You won't be matched with blocked students, and neither of you can message the other.
+            </p>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-400 mx-auto"></div>
+            ) : blockedUsers.length === 0 ? (
+              <p className="text-gray-400 text-center py-4">You haven't blocked anyone.</p>
+            ) : (
+              <div className="space-y-2">
+                {blockedUsers.map((blockedUser) => (
+                  <div
+                    key={blockedUser.blocked_id}
+                    className="flex items-center justify-between bg-white/10 rounded-xl px-4 py-3"
+                  >
+                    <div>
+                      <div className="text-white font-medium">{blockedUser.blocked_username ?? "Unknown student"}</div>
+                      <div className="text-gray-400 text-xs">
+                        Blocked {new Date(blockedUser.created_at).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => unblock(blockedUser)}
+                      className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                    >
+                      Unblock
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
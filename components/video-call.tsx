@@ -1,31 +1,148 @@
 "use client"
 
+import type React from "react"
+
 import { useEffect, useRef, useState } from "react"
-import { Button } from "@/components/ui/button"
-import { Mic, MicOff, Video, VideoOff, PhoneOff } from "lucide-react"
-import { supabase } from "@/lib/supabase"
+import { MicOff, VideoOff } from "lucide-react"
+import { fetchIceServers } from "@/lib/ice-servers"
+import {
+  audioConstraints,
+  loadDevicePreferences,
+  saveDevicePreferences,
+  loadAudioProcessing,
+  saveAudioProcessing,
+  videoConstraints,
+  type AudioProcessing,
+  type DevicePreferences,
+} from "@/lib/media-devices"
+import { createLevelMeter, type LevelMeter } from "@/lib/audio-level"
+import { signalLevel } from "@/lib/call-stats"
+import {
+  createBackgroundProcessor,
+  loadBackgroundEffect,
+  saveBackgroundEffect,
+  type BackgroundEffect,
+  type BackgroundProcessor,
+} from "@/lib/background-effects"
+import { usePeerMesh, type ConnectionStatus } from "@/hooks/use-peer-mesh"
+import { useCallStats } from "@/hooks/use-call-stats"
+import { useCallRecording } from "@/hooks/use-call-recording"
+import { useCallDataChannel } from "@/hooks/use-call-data-channel"
+import CallHeader from "@/components/call-header"
+import CallControls from "@/components/call-controls"
+import CallChatPanel from "@/components/call-chat-panel"
+import StatsPanel from "@/components/call-stats-panel"
+import RemoteVideoGrid from "@/components/remote-video-grid"
+import MicLevelMeter from "@/components/mic-level-meter"
+import { AudioOnlyBanner, ConnectionOverlay, RecordingBanner } from "@/components/call-overlays"
 
 interface VideoCallProps {
   roomId: string
   userId: string
   username: string
-  isInitiator: boolean
+  // Timed calls (speed-networking rounds) hang up on their own at this ISO timestamp
+  endsAt?: string | null
+  // Voice rooms join without a camera
+  audioOnly?: boolean
+  // Extra buttons shown next to End Call, e.g. Connect in 1:1 calls
+  headerActions?: React.ReactNode
   onEndCall: () => void
 }
 
-export default function VideoCall({ roomId, userId, username, isInitiator, onEndCall }: VideoCallProps) {
+// Our own camera, mic and screen live here; the connections to everyone else, call quality, recording and chat
+// are each handled by their own hook
+export default function VideoCall({
+  roomId,
+  userId,
+  username,
+  endsAt,
+  audioOnly = false,
+  headerActions,
+  onEndCall,
+}: VideoCallProps) {
   const localVideoRef = useRef<HTMLVideoElement>(null)
-  const remoteVideoRef = useRef<HTMLVideoElement>(null)
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null)
   const localStreamRef = useRef<MediaStream | null>(null)
-  const signalingChannelRef = useRef<any>(null)
-  const iceCandidatesQueue = useRef<RTCIceCandidateInit[]>([])
+  const screenStreamRef = useRef<MediaStream | null>(null)
+  const backgroundProcessorRef = useRef<BackgroundProcessor | null>(null)
+  const levelMeterRef = useRef<LevelMeter | null>(null)
+  // Set once the round's time runs out, so the countdown only ends the call once
+  const timeUpRef = useRef(false)
 
-  const [isVideoEnabled, setIsVideoEnabled] = useState(true)
+  const [isVideoEnabled, setIsVideoEnabled] = useState(!audioOnly)
   const [isAudioEnabled, setIsAudioEnabled] = useState(true)
-  const [connectionStatus, setConnectionStatus] = useState<"connecting" | "connected" | "disconnected">("connecting")
-  const [remoteStreamReceived, setRemoteStreamReceived] = useState(false)
+  const [isScreenSharing, setIsScreenSharing] = useState(false)
+  const [mediaError, setMediaError] = useState(false)
   const [callDuration, setCallDuration] = useState(0)
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null)
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+  const [activeDevices, setActiveDevices] = useState<DevicePreferences>({})
+  const [showStats, setShowStats] = useState(false)
+  const [backgroundEffect, setBackgroundEffect] = useState<BackgroundEffect>("none")
+  const [backgroundError, setBackgroundError] = useState<string | null>(null)
+  const [mutedSpeaking, setMutedSpeaking] = useState(false)
+  const [audioProcessing, setAudioProcessing] = useState<AudioProcessing>(loadAudioProcessing)
+
+  // The mesh reports back to recording, chat and stats, which are set up below it
+  const mesh = usePeerMesh({
+    roomId,
+    userId,
+    username,
+    localStreamRef,
+    outgoingVideoTrack: () => outgoingVideoTrack(),
+    presence: () => ({
+      audioEnabled: localStreamRef.current?.getAudioTracks()[0]?.enabled ?? false,
+      videoEnabled: localStreamRef.current?.getVideoTracks()[0]?.enabled ?? false,
+      screenSharing: screenStreamRef.current !== null,
+      recording: recording.recorderActive(),
+    }),
+    onPeerConnection: (peerId, peerConnection) => chat.addPeer(peerId, peerConnection),
+    onPeerClosed: (peerId) => {
+      stats.forgetPeer(peerId)
+      chat.removePeer(peerId)
+    },
+    onPresenceSync: (peerIds) => recording.handlePeersPresent(peerIds),
+    onRecordingMessage: (message) => recording.handleRecordingMessage(message),
+  })
+  const remoteParticipants = mesh.remoteParticipants
+  const remoteRecorder = remoteParticipants.find((p) => p.recording)
+
+  const stats = useCallStats({
+    username,
+    audioOnly,
+    peerConnectionsRef: mesh.peerConnectionsRef,
+    localStreamRef,
+    screenStreamRef,
+    onCameraChange: (enabled) => {
+      setIsVideoEnabled(enabled)
+      mesh.trackPresence()
+    },
+  })
+  const recording = useCallRecording({
+    roomId,
+    userId,
+    username,
+    peerConnectionsRef: mesh.peerConnectionsRef,
+    localTracks: () => [outgoingVideoTrack(), localStreamRef.current?.getAudioTracks()[0]],
+    remoteRecorder,
+    sendSignalingMessage: mesh.sendSignalingMessage,
+    trackPresence: mesh.trackPresence,
+  })
+  const chat = useCallDataChannel({ roomId, userId, username })
+
+  const connectionStatus: ConnectionStatus = mediaError
+    ? "disconnected"
+    : remoteParticipants.some((p) => p.connectionState === "connected")
+      ? "connected"
+      : remoteParticipants.some((p) => p.reconnecting)
+        ? "reconnecting"
+        : remoteParticipants.length > 0 && remoteParticipants.every((p) => p.reconnectFailed)
+          ? "disconnected"
+          : "connecting"
+  // The bars show the weakest link, since that's the one people will notice
+  const signalLevels = remoteParticipants
+    .map((p) => signalLevel(stats.callStats[p.userId]))
+    .filter((level): level is number => level !== null)
+  const signalBars = signalLevels.length > 0 ? Math.min(...signalLevels) : null
 
   useEffect(() => {
     initializeCall()
@@ -34,6 +151,11 @@ export default function VideoCall({ roomId, userId, username, isInitiator, onEnd
     }
   }, [])
 
+  useEffect(() => {
+    navigator.mediaDevices?.addEventListener("devicechange", handleDeviceChange)
+    return () => navigator.mediaDevices?.removeEventListener("devicechange", handleDeviceChange)
+  }, [])
+
   useEffect(() => {
     let interval: NodeJS.Timeout
     if (connectionStatus === "connected") {
@@ -44,221 +166,340 @@ export default function VideoCall({ roomId, userId, username, isInitiator, onEnd
     return () => clearInterval(interval)
   }, [connectionStatus])
 
-  const formatDuration = (seconds: number) => {
-    const mins = Math.floor(seconds / 60)
-    const secs = seconds % 60
-    return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
-  }
+  useEffect(() => {
+    if (!endsAt) return
+
+    const deadline = new Date(endsAt).getTime()
+    let interval: NodeJS.Timeout | null = null
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((deadline - Date.now()) / 1000))
+      setSecondsLeft(remaining)
+      if (remaining === 0) {
+        if (interval) clearInterval(interval)
+        interval = null
+        if (timeUpRef.current) return
+        timeUpRef.current = true
+        console.log(`[${username}] Time is up, ending call`)
+        endCall()
+      }
+    }
+
+    tick()
+    if (!timeUpRef.current) interval = setInterval(tick, 1000)
+    return () => {
+      if (interval) clearInterval(interval)
+    }
+  }, [endsAt])
 
   const initializeCall = async () => {
     try {
-      console.log(`[${username}] Initializing call as ${isInitiator ? "initiator" : "receiver"}`)
+      console.log(`[${username}] Joining call in room ${roomId}`)
 
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 640, height: 480 },
-        audio: true,
-      })
+      const preferences = loadDevicePreferences()
+      const [stream, iceServers] = await Promise.all([
+        navigator.mediaDevices.getUserMedia({
+          video: audioOnly ? false : videoConstraints(preferences.videoInputId),
+          audio: audioConstraints(preferences.audioInputId),
+        }),
+        fetchIceServers(),
+      ])
 
       localStreamRef.current = stream
+      startLevelMeter(stream.getAudioTracks()[0])
       if (localVideoRef.current) {
         localVideoRef.current.srcObject = stream
       }
 
-      const configuration = {
-        iceServers: [
-          { urls: "stun:stun.l.google.com:19302" },
-          { urls: "stun:stun1.l.google.com:19302" },
-          { urls: "stun:stun2.l.google.com:19302" },
-          { urls: "stun:stun3.l.google.com:19302" },
-        ],
-        iceCandidatePoolSize: 10,
+      setActiveDevices({
+        audioInputId: stream.getAudioTracks()[0]?.getSettings().deviceId,
+        videoInputId: stream.getVideoTracks()[0]?.getSettings().deviceId,
+        audioOutputId: preferences.audioOutputId,
+      })
+      await refreshDevices()
+
+      // Not awaited: loading the segmentation model shouldn't hold up joining, and peers get the processed
+      // track swapped in once it's ready
+      const savedEffect = loadBackgroundEffect()
+      if (!audioOnly && savedEffect !== "none") {
+        applyBackgroundEffect(savedEffect)
       }
 
-      const peerConnection = new RTCPeerConnection(configuration)
-      peerConnectionRef.current = peerConnection
+      await mesh.join(iceServers)
+    } catch (error) {
+      console.error(`[${username}] Error initializing call:`, error)
+      setMediaError(true)
+    }
+  }
 
-      stream.getTracks().forEach((track) => {
-        console.log(`[${username}] Adding track:`, track.kind)
-        peerConnection.addTrack(track, stream)
-      })
+  const toggleVideo = () => {
+    // Turning the camera back on by hand during a fallback means they'd rather have video anyway
+    if (stats.audioFallback) {
+      stats.keepVideo()
+      return
+    }
 
-      peerConnection.ontrack = (event) => {
-        console.log(`[${username}] Received remote track:`, event.track.kind)
-        if (remoteVideoRef.current && event.streams[0]) {
-          remoteVideoRef.current.srcObject = event.streams[0]
-          setRemoteStreamReceived(true)
-          setConnectionStatus("connected")
-        }
+    if (localStreamRef.current) {
+      const videoTrack = localStreamRef.current.getVideoTracks()[0]
+      if (videoTrack) {
+        videoTrack.enabled = !videoTrack.enabled
+        setIsVideoEnabled(videoTrack.enabled)
+        mesh.trackPresence()
       }
+    }
+  }
 
-      peerConnection.onicecandidate = (event) => {
-        if (event.candidate) {
-          console.log(`[${username}] Sending ICE candidate`)
-          sendSignalingMessage("ice-candidate", {
-            candidate: event.candidate,
-          })
-        }
+  const toggleAudio = () => {
+    if (localStreamRef.current) {
+      const audioTrack = localStreamRef.current.getAudioTracks()[0]
+      if (audioTrack) {
+        audioTrack.enabled = !audioTrack.enabled
+        setIsAudioEnabled(audioTrack.enabled)
+        mesh.trackPresence()
       }
+    }
+  }
 
-      peerConnection.onconnectionstatechange = () => {
-        console.log(`[${username}] Connection state:`, peerConnection.connectionState)
-        if (peerConnection.connectionState === "connected") {
-          setConnectionStatus("connected")
-        } else if (peerConnection.connectionState === "disconnected" || peerConnection.connectionState === "failed") {
-          setConnectionStatus("disconnected")
-        }
-      }
+  // Swaps the outgoing audio or video on every connection without renegotiating
+  const replaceOutgoingTrack = async (track: MediaStreamTrack) => {
+    await Promise.all(
+      Array.from(mesh.peerConnectionsRef.current.values()).map((peerConnection) =>
+        peerConnection
+          .getSenders()
+          .find((sender) => sender.track?.kind === track.kind)
+          ?.replaceTrack(track),
+      ),
+    )
+  }
 
-      peerConnection.oniceconnectionstatechange = () => {
-        console.log(`[${username}] ICE connection state:`, peerConnection.iceConnectionState)
-      }
+  const startLevelMeter = (track: MediaStreamTrack | undefined) => {
+    levelMeterRef.current?.stop()
+    levelMeterRef.current = null
+    if (!track) return
+
+    try {
+      levelMeterRef.current = createLevelMeter(track)
+    } catch (error) {
+      console.error(`[${username}] Error starting mic level meter:`, error)
+    }
+  }
+
+  const changeAudioProcessing = async (processing: AudioProcessing) => {
+    setAudioProcessing(processing)
+    saveAudioProcessing(processing)
 
-      await setupSignalingChannel(peerConnection)
+    const track = localStreamRef.current?.getAudioTracks()[0]
+    if (!track) return
 
-      if (isInitiator) {
-        console.log(`[${username}] Will create offer in 2 seconds`)
-        setTimeout(async () => {
-          await createOffer(peerConnection)
-        }, 2000)
+    try {
+      await track.applyConstraints({ ...track.getConstraints(), ...processing })
+      const settings = track.getSettings()
+      const applied = (Object.keys(processing) as (keyof AudioProcessing)[]).every(
+        (key) => settings[key] === undefined || settings[key] === processing[key],
+      )
+      if (applied) {
+        startLevelMeter(track)
+        return
       }
     } catch (error) {
-      console.error(`[${username}] Error initializing call:`, error)
-      setConnectionStatus("disconnected")
+      console.error(`[${username}] Error applying audio processing:`, error)
+    }
+
+    // Some browsers only honour these when the microphone is opened, so open it again
+    const deviceId = track.getSettings().deviceId
+    if (deviceId) {
+      await switchDevice("audioinput", deviceId, false)
     }
   }
 
-  const setupSignalingChannel = async (peerConnection: RTCPeerConnection) => {
-    const channel = supabase.channel(`webrtc-${roomId}`, {
-      config: {
-        broadcast: { self: true },
-      },
-    })
-
-    channel
-      .on("broadcast", { event: "offer" }, async ({ payload }) => {
-        if (payload.senderId !== userId) {
-          console.log(`[${username}] Received offer from ${payload.senderId}`)
-          await handleOffer(peerConnection, payload.offer)
-        }
-      })
-      .on("broadcast", { event: "answer" }, async ({ payload }) => {
-        if (payload.senderId !== userId) {
-          console.log(`[${username}] Received answer from ${payload.senderId}`)
-          await handleAnswer(peerConnection, payload.answer)
-        }
-      })
-      .on("broadcast", { event: "ice-candidate" }, async ({ payload }) => {
-        if (payload.senderId !== userId) {
-          console.log(`[${username}] Received ICE candidate from ${payload.senderId}`)
-          await handleIceCandidate(peerConnection, payload.candidate)
-        }
-      })
+  // What peers see from us: the shared screen, else the camera with any background effect applied
+  const outgoingVideoTrack = () =>
+    screenStreamRef.current?.getVideoTracks()[0] ??
+    backgroundProcessorRef.current?.track ??
+    localStreamRef.current?.getVideoTracks()[0]
 
-    await channel.subscribe()
-    signalingChannelRef.current = channel
-    console.log(`[${username}] Signaling channel setup complete`)
+  const showLocalPreview = () => {
+    if (!localVideoRef.current) return
+
+    const processedTrack = backgroundProcessorRef.current?.track
+    localVideoRef.current.srcObject =
+      screenStreamRef.current ?? (processedTrack ? new MediaStream([processedTrack]) : localStreamRef.current)
   }
 
-  const sendSignalingMessage = (event: string, data: any) => {
-    if (signalingChannelRef.current) {
-      signalingChannelRef.current.send({
-        type: "broadcast",
-        event,
-        payload: {
-          ...data,
-          senderId: userId,
-          roomId,
-        },
-      })
+  const applyBackgroundEffect = async (effect: BackgroundEffect) => {
+    setBackgroundEffect(effect)
+    setBackgroundError(null)
+    saveBackgroundEffect(effect)
+
+    const cameraTrack = localStreamRef.current?.getVideoTracks()[0]
+    if (!cameraTrack) return
+
+    const processor = backgroundProcessorRef.current
+    if (processor && effect !== "none") {
+      processor.setEffect(effect)
+      return
     }
-  }
 
-  const createOffer = async (peerConnection: RTCPeerConnection) => {
-    try {
-      console.log(`[${username}] Creating offer`)
-      const offer = await peerConnection.createOffer({
-        offerToReceiveAudio: true,
-        offerToReceiveVideo: true,
-      })
-      await peerConnection.setLocalDescription(offer)
-      console.log(`[${username}] Sending offer`)
+    if (effect === "none") {
+      if (!processor) return
 
-      sendSignalingMessage("offer", { offer })
-    } catch (error) {
-      console.error(`[${username}] Error creating offer:`, error)
+      backgroundProcessorRef.current = null
+      if (!screenStreamRef.current) {
+        await replaceOutgoingTrack(cameraTrack)
+      }
+      processor.stop()
+      showLocalPreview()
+      return
     }
-  }
 
-  const handleOffer = async (peerConnection: RTCPeerConnection, offer: RTCSessionDescriptionInit) => {
     try {
-      console.log(`[${username}] Handling offer`)
-      await peerConnection.setRemoteDescription(offer)
-
-      while (iceCandidatesQueue.current.length > 0) {
-        const candidate = iceCandidatesQueue.current.shift()
-        if (candidate) {
-          await peerConnection.addIceCandidate(candidate)
-        }
+      console.log(`[${username}] Starting background effect: ${effect}`)
+      const created = await createBackgroundProcessor(cameraTrack, effect)
+
+      // The call ended, or another choice got there first, while the model was loading
+      if (cameraTrack.readyState === "ended" || backgroundProcessorRef.current) {
+        created.stop()
+        backgroundProcessorRef.current?.setEffect(effect)
+        return
       }
 
-      const answer = await peerConnection.createAnswer()
-      await peerConnection.setLocalDescription(answer)
-      console.log(`[${username}] Sending answer`)
+      backgroundProcessorRef.current = created
+      if (!screenStreamRef.current) {
+        await replaceOutgoingTrack(created.track)
+      }
+      showLocalPreview()
+    } catch (error) {
+      console.error(`[${username}] Error starting background effect:`, error)
+      setBackgroundEffect("none")
+      setBackgroundError("Background effects aren't available on this device")
+    }
+  }
 
-      sendSignalingMessage("answer", { answer })
+  const refreshDevices = async () => {
+    try {
+      const available = await navigator.mediaDevices.enumerateDevices()
+      setDevices(available)
+      return available
     } catch (error) {
-      console.error(`[${username}] Error handling offer:`, error)
+      console.error(`[${username}] Error listing devices:`, error)
+      return []
     }
   }
 
-  const handleAnswer = async (peerConnection: RTCPeerConnection, answer: RTCSessionDescriptionInit) => {
+  // Switches to a device mid-call. Choices made in the picker are remembered; automatic fallbacks are not,
+  // so a headset that was unplugged is picked again next time.
+  const switchDevice = async (kind: MediaDeviceKind, deviceId: string, remember = true) => {
+    const key = kind === "audioinput" ? "audioInputId" : kind === "videoinput" ? "videoInputId" : "audioOutputId"
+    if (remember) {
+      saveDevicePreferences({ ...loadDevicePreferences(), [key]: deviceId })
+    }
+    setActiveDevices((prev) => ({ ...prev, [key]: deviceId }))
+
+    // Remote tiles pick up the new speaker through their sinkId prop
+    if (kind === "audiooutput") return
+
+    const stream = localStreamRef.current
+    if (!stream) return
+
     try {
-      console.log(`[${username}] Handling answer`)
-      await peerConnection.setRemoteDescription(answer)
+      console.log(`[${username}] Switching ${kind} to ${deviceId}`)
+      const newStream = await navigator.mediaDevices.getUserMedia(
+        kind === "videoinput"
+          ? { video: { ...videoConstraints(), deviceId: { exact: deviceId } } }
+          : { audio: { ...loadAudioProcessing(), deviceId: { exact: deviceId } } },
+      )
+      const newTrack = newStream.getTracks()[0]
+      const oldTrack = kind === "videoinput" ? stream.getVideoTracks()[0] : stream.getAudioTracks()[0]
+
+      if (oldTrack) {
+        newTrack.enabled = oldTrack.enabled
+        stream.removeTrack(oldTrack)
+        oldTrack.stop()
+      }
+      stream.addTrack(newTrack)
+      if (newTrack.kind === "audio") {
+        startLevelMeter(newTrack)
+      }
 
-      while (iceCandidatesQueue.current.length > 0) {
-        const candidate = iceCandidatesQueue.current.shift()
-        if (candidate) {
-          await peerConnection.addIceCandidate(candidate)
+      // With a background effect on, the processor keeps sending its own track and just reads the new camera.
+      // While presenting, a new camera is only sent once sharing stops.
+      if (newTrack.kind === "video" && backgroundProcessorRef.current) {
+        backgroundProcessorRef.current.setSource(newTrack)
+      } else if (newTrack.kind === "audio" || !screenStreamRef.current) {
+        await replaceOutgoingTrack(newTrack)
+        if (newTrack.kind === "video") {
+          showLocalPreview()
         }
       }
     } catch (error) {
-      console.error(`[${username}] Error handling answer:`, error)
+      console.error(`[${username}] Error switching ${kind}:`, error)
     }
   }
 
-  const handleIceCandidate = async (peerConnection: RTCPeerConnection, candidate: RTCIceCandidateInit) => {
-    try {
-      if (peerConnection.remoteDescription) {
-        await peerConnection.addIceCandidate(candidate)
-        console.log(`[${username}] Added ICE candidate`)
-      } else {
-        iceCandidatesQueue.current.push(candidate)
-        console.log(`[${username}] Queued ICE candidate`)
+  // Follows devices being plugged in and out: falls back to another device when the one in use disappears,
+  // and returns to the saved choice when it comes back
+  const handleDeviceChange = async () => {
+    const available = await refreshDevices()
+    const stream = localStreamRef.current
+    if (!stream) return
+
+    const preferences = loadDevicePreferences()
+    for (const track of stream.getTracks()) {
+      const kind: MediaDeviceKind = track.kind === "video" ? "videoinput" : "audioinput"
+      const preferredId = kind === "videoinput" ? preferences.videoInputId : preferences.audioInputId
+      const currentId = track.getSettings().deviceId
+      const candidates = available.filter((device) => device.kind === kind)
+
+      const target =
+        candidates.find((device) => device.deviceId === preferredId) ??
+        (candidates.some((device) => device.deviceId === currentId) ? undefined : candidates[0])
+
+      if (target && target.deviceId !== currentId) {
+        await switchDevice(kind, target.deviceId, false)
       }
-    } catch (error) {
-      console.error(`[${username}] Error handling ICE candidate:`, error)
     }
   }
 
-  const toggleVideo = () => {
-    if (localStreamRef.current) {
-      const videoTrack = localStreamRef.current.getVideoTracks()[0]
-      if (videoTrack) {
-        videoTrack.enabled = !videoTrack.enabled
-        setIsVideoEnabled(videoTrack.enabled)
+  const startScreenShare = async () => {
+    try {
+      const screenStream = await navigator.mediaDevices.getDisplayMedia({ video: true })
+      const screenTrack = screenStream.getVideoTracks()[0]
+      // Also fires when the browser's own "Stop sharing" button is used
+      screenTrack.onended = () => {
+        stopScreenShare()
+      }
+
+      screenStreamRef.current = screenStream
+      await stats.resetVideoQuality()
+      await replaceOutgoingTrack(screenTrack)
+      if (localVideoRef.current) {
+        localVideoRef.current.srcObject = screenStream
       }
+
+      console.log(`[${username}] Started screen sharing`)
+      setIsScreenSharing(true)
+      mesh.trackPresence()
+    } catch (error) {
+      // Cancelling the browser's picker lands here too
+      console.error(`[${username}] Error starting screen share:`, error)
     }
   }
 
-  const toggleAudio = () => {
-    if (localStreamRef.current) {
-      const audioTrack = localStreamRef.current.getAudioTracks()[0]
-      if (audioTrack) {
-        audioTrack.enabled = !audioTrack.enabled
-        setIsAudioEnabled(audioTrack.enabled)
-      }
+  const stopScreenShare = async () => {
+    const screenStream = screenStreamRef.current
+    if (!screenStream) return
+
+    screenStreamRef.current = null
+    screenStream.getTracks().forEach((track) => track.stop())
+
+    const cameraTrack = outgoingVideoTrack()
+    if (cameraTrack) {
+      await replaceOutgoingTrack(cameraTrack)
     }
+    showLocalPreview()
+
+    console.log(`[${username}] Stopped screen sharing`)
+    setIsScreenSharing(false)
+    mesh.trackPresence()
   }
 
   const endCall = () => {
@@ -271,148 +512,154 @@ export default function VideoCall({ roomId, userId, username, isInitiator, onEnd
     if (localStreamRef.current) {
       localStreamRef.current.getTracks().forEach((track) => track.stop())
     }
-    if (peerConnectionRef.current) {
-      peerConnectionRef.current.close()
-    }
-    if (signalingChannelRef.current) {
-      supabase.removeChannel(signalingChannelRef.current)
-    }
+    screenStreamRef.current?.getTracks().forEach((track) => track.stop())
+    screenStreamRef.current = null
+    backgroundProcessorRef.current?.stop()
+    backgroundProcessorRef.current = null
+    levelMeterRef.current?.stop()
+    levelMeterRef.current = null
+    stats.stop()
+    chat.close()
+    recording.stop()
+    mesh.leave()
   }
 
   return (
     <div className="flex flex-col h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 relative">
-      {/* Header */}
-      <div className="bg-black/20 backdrop-blur-lg border-b border-white/10 p-4">
-        <div className="flex justify-between items-center">
-          <div className="flex items-center space-x-4">
-            <h1 className="text-xl font-bold text-white">
-              Campus<span className="text-purple-400">Chat</span>
-            </h1>
-            <div className="flex items-center space-x-2">
-              <div
-                className={`w-3 h-3 rounded-full ${
-                  connectionStatus === "connected"
-                    ? "bg-green-400 animate-pulse"
-                    : connectionStatus === "connecting"
-                      ? "bg-yellow-400 animate-pulse"
-                      : "bg-red-400"
-                }`}
-              ></div>
-              <span className="text-gray-300 text-sm">
-                {connectionStatus === "connected"
-                  ? `Connected • ${formatDuration(callDuration)}`
-                  : connectionStatus === "connecting"
-                    ? "Connecting..."
-                    : "Disconnected"}
-              </span>
+      <CallHeader
+        connectionStatus={connectionStatus}
+        callDuration={callDuration}
+        secondsLeft={secondsLeft}
+        signalBars={signalBars}
+        isRecording={recording.isRecording}
+        remoteRecorder={remoteRecorder}
+        participantCount={remoteParticipants.length + 1}
+        headerActions={headerActions}
+        isChatOpen={chat.isChatOpen}
+        unreadCount={chat.unreadCount}
+        showStats={showStats}
+        onToggleChat={chat.toggleChat}
+        onToggleStats={() => setShowStats((prev) => !prev)}
+        onEndCall={endCall}
+      />
+
+      <div className="flex-1 flex min-h-0">
+        {/* Remote videos */}
+        <div className="flex-1 relative">
+          <RemoteVideoGrid
+            participants={remoteParticipants}
+            sinkId={activeDevices.audioOutputId}
+            onRedial={(peerId) => mesh.redialPeer(peerId, true)}
+          />
+          {showStats && (
+            <div className="absolute top-4 left-4 z-10 space-y-2 max-w-xs">
+              {remoteParticipants.map((participant) => (
+                <StatsPanel
+                  key={participant.userId}
+                  username={participant.username}
+                  stats={stats.callStats[participant.userId]}
+                />
+              ))}
             </div>
-          </div>
-          <Button
-            onClick={endCall}
-            variant="destructive"
-            className="bg-gradient-to-r from-red-500 to-pink-500 hover:from-red-600 hover:to-pink-600"
-          >
-            <PhoneOff className="w-4 h-4 mr-2" />
-            End Call
-          </Button>
+          )}
+          <RecordingBanner
+            request={recording.recordingRequest}
+            awaitingConsent={recording.awaitingRecordingConsent}
+            notice={recording.recordingNotice}
+            onAnswer={recording.answerRecordingRequest}
+            onCancel={recording.cancelRecordingRequest}
+          />
+          {(stats.audioOnlyOffered || stats.audioFallback) && connectionStatus === "connected" && (
+            <AudioOnlyBanner
+              offered={stats.audioOnlyOffered}
+              onSwitch={stats.switchToAudioOnly}
+              onKeepVideo={stats.keepVideo}
+              onTurnVideoOn={toggleVideo}
+            />
+          )}
+          <ConnectionOverlay
+            status={connectionStatus}
+            waitingForOthers={remoteParticipants.length === 0}
+            canRedial={!mediaError}
+            onRedial={mesh.redialFailed}
+            onEndCall={endCall}
+          />
         </div>
-      </div>
 
-      {/* Remote video (main view) */}
-      <div className="flex-1 relative">
-        <video
-          ref={remoteVideoRef}
-          autoPlay
-          playsInline
-          className="w-full h-full object-cover"
-          style={{ transform: "scaleX(-1)" }}
-        />
-        {connectionStatus === "connecting" && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black/75 backdrop-blur-sm">
-            <div className="text-white text-center">
-              <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-purple-400 mx-auto mb-6"></div>
-              <div className="text-2xl font-bold mb-2">Connecting...</div>
-              <div className="text-gray-300">{isInitiator ? "Waiting for other user to join" : "Joining call"}</div>
-            </div>
-          </div>
-        )}
-        {connectionStatus === "disconnected" && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black/75 backdrop-blur-sm">
-            <div className="text-white text-center">
-              <div className="text-2xl font-bold mb-4">Connection Lost</div>
-              <Button onClick={endCall} variant="destructive" size="lg">
-                End Call
-              </Button>
-            </div>
-          </div>
-        )}
-        {!remoteStreamReceived && connectionStatus === "connected" && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black/75 backdrop-blur-sm">
-            <div className="text-white text-center">
-              <div className="text-xl">Waiting for video...</div>
-            </div>
-          </div>
+        {chat.isChatOpen && (
+          <CallChatPanel
+            userId={userId}
+            messages={chat.chatMessages}
+            transfers={chat.fileTransfers}
+            error={chat.chatError}
+            onSend={chat.sendChatMessage}
+            onSendFile={chat.sendFile}
+            onClose={chat.toggleChat}
+          />
         )}
       </div>
 
       {/* Local video (picture-in-picture) */}
-      <div className="absolute top-20 right-6 w-64 h-48 bg-black/50 rounded-xl overflow-hidden border-2 border-white/20 backdrop-blur-sm">
+      <div
+        className={`absolute top-20 ${
+          chat.isChatOpen ? "right-[21.5rem]" : "right-6"
+        } w-64 h-48 bg-black/50 rounded-xl overflow-hidden border-2 border-white/20 backdrop-blur-sm`}
+      >
         <video
           ref={localVideoRef}
           autoPlay
           playsInline
           muted
-          className="w-full h-full object-cover"
-          style={{ transform: "scaleX(-1)" }}
+          className={`w-full h-full ${isScreenSharing ? "object-contain" : "object-cover"}`}
+          style={isScreenSharing ? undefined : { transform: "scaleX(-1)" }}
         />
-        <div className="absolute bottom-2 left-2 bg-black/50 backdrop-blur-sm text-white text-xs px-2 py-1 rounded">
-          You
-        </div>
-        {!isVideoEnabled && (
+        {!isVideoEnabled && !isScreenSharing && (
           <div className="absolute inset-0 bg-black/75 flex items-center justify-center">
             <VideoOff className="w-8 h-8 text-white" />
           </div>
         )}
+        <div className="absolute bottom-2 left-2 flex items-center space-x-2 bg-black/50 backdrop-blur-sm text-white text-xs px-2 py-1 rounded">
+          <MicLevelMeter meterRef={levelMeterRef} muted={!isAudioEnabled} onMutedSpeakingChange={setMutedSpeaking} />
+          <span>{isScreenSharing ? "Your screen" : "You"}</span>
+        </div>
       </div>
 
-      {/* Controls */}
+      {mutedSpeaking && !isAudioEnabled && (
+        <button
+          type="button"
+          onClick={toggleAudio}
+          className="absolute bottom-32 left-1/2 -translate-x-1/2 flex items-center space-x-2 bg-black/70 backdrop-blur-sm text-white text-sm rounded-full px-4 py-2 border border-red-400/40 hover:bg-black/80"
+        >
+          <MicOff className="w-4 h-4 text-red-400" />
+          <span>You're muted. Click to unmute.</span>
+        </button>
+      )}
+
       <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2">
-        <div className="flex space-x-4 bg-black/50 backdrop-blur-lg rounded-full p-4 border border-white/20">
-          <Button
-            variant={isAudioEnabled ? "secondary" : "destructive"}
-            size="lg"
-            onClick={toggleAudio}
-            className={`rounded-full w-16 h-16 ${
-              isAudioEnabled
-                ? "bg-white/20 hover:bg-white/30 text-white border-white/20"
-                : "bg-red-500 hover:bg-red-600 text-white"
-            }`}
-          >
-            {isAudioEnabled ? <Mic className="w-6 h-6" /> : <MicOff className="w-6 h-6" />}
-          </Button>
-
-          <Button
-            variant={isVideoEnabled ? "secondary" : "destructive"}
-            size="lg"
-            onClick={toggleVideo}
-            className={`rounded-full w-16 h-16 ${
-              isVideoEnabled
-                ? "bg-white/20 hover:bg-white/30 text-white border-white/20"
-                : "bg-red-500 hover:bg-red-600 text-white"
-            }`}
-          >
-            {isVideoEnabled ? <Video className="w-6 h-6" /> : <VideoOff className="w-6 h-6" />}
-          </Button>
-
-          <Button
-            variant="destructive"
-            size="lg"
-            onClick={endCall}
-            className="rounded-full w-16 h-16 bg-gradient-to-r from-red-500 to-pink-500 hover:from-red-600 hover:to-pink-600"
-          >
-            <PhoneOff className="w-6 h-6" />
-          </Button>
-        </div>
+        <CallControls
+          audioOnly={audioOnly}
+          isAudioEnabled={isAudioEnabled}
+          isVideoEnabled={isVideoEnabled}
+          isScreenSharing={isScreenSharing}
+          backgroundEffect={backgroundEffect}
+          backgroundError={backgroundError}
+          recordingActive={recording.isRecording || !!remoteRecorder}
+          recordingDisabled={
+            recording.awaitingRecordingConsent ||
+            (!recording.isRecording && !remoteRecorder && connectionStatus !== "connected")
+          }
+          devices={devices}
+          activeDevices={activeDevices}
+          audioProcessing={audioProcessing}
+          onToggleAudio={toggleAudio}
+          onToggleVideo={toggleVideo}
+          onToggleScreenShare={isScreenSharing ? stopScreenShare : startScreenShare}
+          onBackgroundEffect={applyBackgroundEffect}
+          onToggleRecording={recording.toggleRecording}
+          onSelectDevice={switchDevice}
+          onAudioProcessingChange={changeAudioProcessing}
+          onEndCall={endCall}
+        />
       </div>
     </div>
   )
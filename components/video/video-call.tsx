@@ -4,14 +4,17 @@ import { useEffect, useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Mic, MicOff, Video, VideoOff, PhoneOff } from "lucide-react"
+import { fetchIceServers } from "@/lib/ice-servers"
 
 interface VideoCallProps {
   roomId: string
   isInitiator: boolean
+  // Voice chats never turn the camera on
+  audioOnly?: boolean
   onEndCall: () => void
 }
 
-export default function VideoCall({ roomId, isInitiator, onEndCall }: VideoCallProps) {
+export default function VideoCall({ roomId, isInitiator, audioOnly = false, onEndCall }: VideoCallProps) {
   const localVideoRef = useRef<HTMLVideoElement>(null)
   const remoteVideoRef = useRef<HTMLVideoElement>(null)
   const peerConnectionRef = useRef<RTCPeerConnection | null>(null)
@@ -35,7 +38,7 @@ export default function VideoCall({ roomId, isInitiator, onEndCall }: VideoCallP
 
       // Get user media
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: true,
+        video: !audioOnly,
         audio: true,
       })
 
@@ -46,7 +49,7 @@ export default function VideoCall({ roomId, isInitiator, onEndCall }: VideoCallP
 
       // Create peer connection
       const configuration = {
-        iceServers: [{ urls: "stun:stun.l.google.com:19302" }, { urls: "stun:stun1.l.google.com:19302" }],
+        iceServers: await fetchIceServers(),
       }
 
       const peerConnection = new RTCPeerConnection(configuration)
@@ -146,11 +149,13 @@ export default function VideoCall({ roomId, isInitiator, onEndCall }: VideoCallP
       </div>
 
       {/* Local video */}
-      <div className="absolute top-4 right-4 w-32 h-24">
-        <Card className="overflow-hidden">
-          <video ref={localVideoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
-        </Card>
-      </div>
+      {!audioOnly && (
+        <div className="absolute top-4 right-4 w-32 h-24">
+          <Card className="overflow-hidden">
+            <video ref={localVideoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+          </Card>
+        </div>
+      )}
 
       {/* Controls */}
       <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2">
@@ -164,14 +169,16 @@ export default function VideoCall({ roomId, isInitiator, onEndCall }: VideoCallP
             {isAudioEnabled ? <Mic /> : <MicOff />}
           </Button>
 
-          <Button
-            variant={isVideoEnabled ? "default" : "destructive"}
-            size="lg"
-            onClick={toggleVideo}
-            className="rounded-full w-12 h-12"
-          >
-            {isVideoEnabled ? <Video /> : <VideoOff />}
-          </Button>
+          {!audioOnly && (
+            <Button
+              variant={isVideoEnabled ? "default" : "destructive"}
+              size="lg"
+              onClick={toggleVideo}
+              className="rounded-full w-12 h-12"
+            >
+              {isVideoEnabled ? <Video /> : <VideoOff />}
+            </Button>
+          )}
 
           <Button variant="destructive" size="lg" onClick={endCall} className="rounded-full w-12 h-12">
             <PhoneOff />
@@ -0,0 +1,334 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import {
+  createCallDataChannel,
+  decodeChunk,
+  MAX_FILE_SIZE,
+  sendFileChunks,
+  type CallChatMessage,
+  type DataChannelMessage,
+  type FileTransfer,
+} from "@/lib/call-data-channel"
+
+interface IncomingFile {
+  peerId: string
+  name: string
+  size: number
+  mimeType: string
+  chunks: ArrayBuffer[]
+  received: number
+}
+
+interface CallDataChannelOptions {
+  roomId: string
+  userId: string
+  username: string
+}
+
+// In-call chat and file sharing over a data channel to each peer. Chat is saved to the room's messages too,
+// so it's still there for anyone who wasn't connected when it was sent.
+export function useCallDataChannel({ roomId, userId, username }: CallDataChannelOptions) {
+  const dataChannelsRef = useRef<Map<string, RTCDataChannel>>(new Map())
+  const incomingFilesRef = useRef<Map<string, IncomingFile>>(new Map())
+  // Chat arrives over the data channel and again from the database, so each message is only added once
+  const seenMessageIdsRef = useRef<Set<string>>(new Set())
+  const fileUrlsRef = useRef<string[]>([])
+  const isChatOpenRef = useRef(false)
+
+  const [isChatOpen, setIsChatOpen] = useState(false)
+  const [chatMessages, setChatMessages] = useState<CallChatMessage[]>([])
+  const [fileTransfers, setFileTransfers] = useState<FileTransfer[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [chatError, setChatError] = useState<string | null>(null)
+
+  // Picks up chat sent while we weren't connected, and keeps the history from before the call
+  useEffect(() => {
+    loadChatHistory()
+
+    const channel = supabase
+      .channel(`call-chat-${roomId}-${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "messages",
+          filter: `room_id=eq.${roomId}`,
+        },
+        (payload) => {
+          addChatMessage(payload.new as CallChatMessage, true)
+        },
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [roomId])
+
+  const setupDataChannel = (peerId: string, channel: RTCDataChannel) => {
+    dataChannelsRef.current.set(peerId, channel)
+
+    channel.onmessage = (event) => {
+      if (typeof event.data !== "string") {
+        receiveFileChunk(event.data)
+        return
+      }
+
+      try {
+        const message: DataChannelMessage = JSON.parse(event.data)
+        if (message.type === "chat") {
+          // Whoever is on the other end of this channel sent it, whatever the message says
+          addChatMessage({ ...message.message, sender_id: peerId }, false)
+        } else if (message.type === "file-start") {
+          startIncomingFile(peerId, message)
+        }
+      } catch (error) {
+        console.error(`[${username}] Error reading data channel message:`, error)
+      }
+    }
+
+    channel.onclose = () => {
+      // Files this peer was halfway through sending won't arrive now
+      incomingFilesRef.current.forEach((file, fileId) => {
+        if (file.peerId === peerId) {
+          incomingFilesRef.current.delete(fileId)
+          updateTransfer(fileId, { failed: true })
+        }
+      })
+      // A re-dial may already have put a new channel in its place
+      if (dataChannelsRef.current.get(peerId) === channel) {
+        dataChannelsRef.current.delete(peerId)
+      }
+    }
+  }
+
+  const openDataChannels = () =>
+    Array.from(dataChannelsRef.current.entries()).filter(([, channel]) => channel.readyState === "open")
+
+  const loadChatHistory = async () => {
+    try {
+      const { data } = await supabase
+        .from("messages")
+        .select("*")
+        .eq("room_id", roomId)
+        .order("created_at", { ascending: true })
+
+      if (data) {
+        const history = data as CallChatMessage[]
+        const persistedIds = new Set(history.map((message) => message.id))
+        history.forEach((message) => seenMessageIdsRef.current.add(message.id))
+        setChatMessages((prev) => [...history, ...prev.filter((message) => !persistedIds.has(message.id))])
+      }
+    } catch (error) {
+      console.error(`[${username}] Error loading chat history:`, error)
+    }
+  }
+
+  // The database copy replaces one that arrived first over a data channel, so only what was saved is kept
+  const addChatMessage = (message: CallChatMessage, persisted: boolean) => {
+    if (seenMessageIdsRef.current.has(message.id)) {
+      if (persisted) {
+        setChatMessages((prev) => prev.map((existing) => (existing.id === message.id ? message : existing)))
+      }
+      return
+    }
+
+    seenMessageIdsRef.current.add(message.id)
+    setChatMessages((prev) => [...prev, message])
+    if (message.sender_id !== userId && !isChatOpenRef.current) {
+      setUnreadCount((prev) => prev + 1)
+    }
+  }
+
+  // Saved first, so nothing is shown that isn't in the room's chat history; peers then get it over the data
+  // channel rather than waiting for the database change to reach them
+  const sendChatMessage = async (content: string) => {
+    setChatError(null)
+
+    try {
+      const { data: message, error } = await supabase
+        .from("messages")
+        .insert({
+          id: crypto.randomUUID(),
+          room_id: roomId,
+          sender_id: userId,
+          sender_username: username,
+          content,
+        })
+        .select("id, content, sender_id, sender_username, created_at")
+        .single()
+
+      if (error) throw error
+
+      addChatMessage(message, true)
+      openDataChannels().forEach(([, channel]) =>
+        channel.send(JSON.stringify({ type: "chat", message } satisfies DataChannelMessage)),
+      )
+    } catch (error) {
+      console.error(`[${username}] Error sending chat message:`, error)
+      setChatError("Your message couldn't be sent")
+    }
+  }
+
+  const addTransfer = (transfer: FileTransfer) => {
+    setFileTransfers((prev) => [...prev, transfer])
+    if (transfer.direction === "incoming" && !isChatOpenRef.current) {
+      setUnreadCount((prev) => prev + 1)
+    }
+  }
+
+  const updateTransfer = (fileId: string, update: Partial<FileTransfer>) => {
+    setFileTransfers((prev) => prev.map((transfer) => (transfer.id === fileId ? { ...transfer, ...update } : transfer)))
+  }
+
+  // Sent to everyone in the call at once; progress is the share of all those copies that has gone out
+  const sendFile = async (file: File) => {
+    setChatError(null)
+    if (file.size > MAX_FILE_SIZE) {
+      setChatError(`Files can be up to ${MAX_FILE_SIZE / 1024 / 1024} MB`)
+      return
+    }
+
+    const channels = openDataChannels()
+    if (channels.length === 0) {
+      setChatError("Nobody is connected to send this to yet")
+      return
+    }
+
+    const fileId = crypto.randomUUID()
+    addTransfer({
+      id: fileId,
+      name: file.name,
+      size: file.size,
+      direction: "outgoing",
+      senderName: username,
+      progress: 0,
+      createdAt: new Date().toISOString(),
+    })
+
+    const sentBytes = new Map<string, number>()
+    let shownPercent = 0
+    const reportProgress = (peerId: string, bytes: number) => {
+      sentBytes.set(peerId, bytes)
+      const total = Array.from(sentBytes.values()).reduce((sum, sent) => sum + sent, 0)
+      // Only re-render when the visible percentage changes
+      const percent = Math.floor((total / (file.size * channels.length)) * 100)
+      if (percent !== shownPercent) {
+        shownPercent = percent
+        updateTransfer(fileId, { progress: percent / 100 })
+      }
+    }
+
+    try {
+      await Promise.all(
+        channels.map(async ([peerId, channel]) => {
+          const start: DataChannelMessage = {
+            type: "file-start",
+            fileId,
+            name: file.name,
+            size: file.size,
+            mimeType: file.type,
+            senderName: username,
+          }
+          channel.send(JSON.stringify(start))
+          await sendFileChunks(channel, fileId, file, (bytes) => reportProgress(peerId, bytes))
+        }),
+      )
+      updateTransfer(fileId, { progress: 1 })
+    } catch (error) {
+      console.error(`[${username}] Error sending file:`, error)
+      updateTransfer(fileId, { failed: true })
+    }
+  }
+
+  const startIncomingFile = (peerId: string, start: Extract<DataChannelMessage, { type: "file-start" }>) => {
+    if (start.size > MAX_FILE_SIZE) return
+
+    incomingFilesRef.current.set(start.fileId, {
+      peerId,
+      name: start.name,
+      size: start.size,
+      mimeType: start.mimeType,
+      chunks: [],
+      received: 0,
+    })
+    addTransfer({
+      id: start.fileId,
+      name: start.name,
+      size: start.size,
+      direction: "incoming",
+      senderName: start.senderName,
+      progress: 0,
+      createdAt: new Date().toISOString(),
+    })
+
+    if (start.size === 0) {
+      finishIncomingFile(start.fileId)
+    }
+  }
+
+  const receiveFileChunk = (buffer: ArrayBuffer) => {
+    const { fileId, data } = decodeChunk(buffer)
+    const file = incomingFilesRef.current.get(fileId)
+    if (!file) return
+
+    const before = Math.floor((file.received / file.size) * 100)
+    file.chunks.push(data)
+    file.received += data.byteLength
+    const percent = Math.floor((file.received / file.size) * 100)
+
+    if (file.received >= file.size) {
+      finishIncomingFile(fileId)
+    } else if (percent !== before) {
+      updateTransfer(fileId, { progress: percent / 100 })
+    }
+  }
+
+  const finishIncomingFile = (fileId: string) => {
+    const file = incomingFilesRef.current.get(fileId)
+    if (!file) return
+
+    incomingFilesRef.current.delete(fileId)
+    const url = URL.createObjectURL(new Blob(file.chunks, { type: file.mimeType || "application/octet-stream" }))
+    fileUrlsRef.current.push(url)
+    updateTransfer(fileId, { progress: 1, url })
+  }
+
+  const toggleChat = () => {
+    isChatOpenRef.current = !isChatOpen
+    setIsChatOpen(!isChatOpen)
+    setUnreadCount(0)
+  }
+
+  const addPeer = (peerId: string, peerConnection: RTCPeerConnection) => {
+    setupDataChannel(peerId, createCallDataChannel(peerConnection))
+  }
+
+  const removePeer = (peerId: string) => {
+    dataChannelsRef.current.delete(peerId)
+  }
+
+  const close = () => {
+    fileUrlsRef.current.forEach((url) => URL.revokeObjectURL(url))
+    fileUrlsRef.current = []
+    incomingFilesRef.current.clear()
+    dataChannelsRef.current.clear()
+  }
+
+  return {
+    isChatOpen,
+    chatMessages,
+    fileTransfers,
+    unreadCount,
+    chatError,
+    addPeer,
+    removePeer,
+    sendChatMessage,
+    sendFile,
+    toggleChat,
+    close,
+  }
+}
@@ -0,0 +1,235 @@
+"use client"
+
+import { useRef, useState, type RefObject } from "react"
+import { supabase } from "@/lib/supabase"
+import { downloadRecording, startCallRecording, type CallRecorder, type RecordingSource } from "@/lib/call-recorder"
+import type { RecordingSignal, SignalingMessage } from "@/lib/call-signaling"
+import type { RemoteParticipant } from "@/hooks/use-peer-mesh"
+
+// Everyone has this long to answer a request to record before it's called off
+const RECORDING_CONSENT_TIMEOUT_MS = 30000
+// Recording notices ("Sam declined") disappear after this long
+const RECORDING_NOTICE_MS = 5000
+
+interface CallRecordingOptions {
+  roomId: string
+  userId: string
+  username: string
+  peerConnectionsRef: RefObject<Map<string, RTCPeerConnection>>
+  // What we send, recorded alongside what we receive from each peer
+  localTracks: () => (MediaStreamTrack | undefined)[]
+  // Whoever else in the call is recording, if anyone
+  remoteRecorder?: RemoteParticipant
+  sendSignalingMessage: (targetId: string, message: SignalingMessage) => void
+  trackPresence: () => void
+}
+
+// Recording needs everyone in the call to agree first. Each step of asking is logged against the room.
+export function useCallRecording({
+  roomId,
+  userId,
+  username,
+  peerConnectionsRef,
+  localTracks,
+  remoteRecorder,
+  sendSignalingMessage,
+  trackPresence,
+}: CallRecordingOptions) {
+  const recorderRef = useRef<CallRecorder | null>(null)
+  // Peers we're still waiting on to accept recording, and the ones who agreed to the recording under way
+  const recordingPendingRef = useRef<Set<string> | null>(null)
+  const recordingConsentedRef = useRef<Set<string>>(new Set())
+  const recordingTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const recordingNoticeTimerRef = useRef<NodeJS.Timeout | null>(null)
+
+  const [isRecording, setIsRecording] = useState(false)
+  const [awaitingRecordingConsent, setAwaitingRecordingConsent] = useState(false)
+  const [recordingRequest, setRecordingRequest] = useState<{ senderId: string; username: string } | null>(null)
+  const [recordingNotice, setRecordingNotice] = useState<string | null>(null)
+
+  const handleRecordingMessage = (message: RecordingSignal) => {
+    switch (message.event) {
+      case "recording-request":
+        console.log(`[${username}] ${message.senderId} asked to record`)
+        setRecordingRequest({ senderId: message.senderId, username: message.username })
+        break
+      case "recording-response":
+        handleRecordingResponse(message.senderId, message.username, message.accepted)
+        break
+      case "recording-cancel":
+        setRecordingRequest((prev) => (prev?.senderId === message.senderId ? null : prev))
+        break
+      case "recording-stop":
+        // Anyone who agreed can change their mind and stop the recording
+        if (recorderRef.current) {
+          stopRecording()
+          showRecordingNotice(`${message.username || "Someone"} stopped the recording`)
+        }
+        break
+    }
+  }
+
+  // Consent was given by the people in the call when it started; anyone new hasn't agreed to be recorded
+  const handlePeersPresent = (peerIds: string[]) => {
+    const unconsented = peerIds.some((peerId) => !recordingConsentedRef.current.has(peerId))
+    if (recorderRef.current && unconsented) {
+      console.log(`[${username}] Someone joined mid-recording, stopping`)
+      stopRecording()
+      showRecordingNotice("Recording stopped because someone joined")
+    }
+  }
+
+  const logRecordingConsent = async (event: "requested" | "accepted" | "declined" | "started" | "stopped") => {
+    try {
+      const { error } = await supabase.rpc("log_recording_consent", {
+        p_room_id: roomId,
+        p_event: event,
+      })
+      if (error) throw error
+    } catch (error) {
+      console.error(`[${username}] Error logging recording consent:`, error)
+    }
+  }
+
+  const showRecordingNotice = (notice: string) => {
+    if (recordingNoticeTimerRef.current) {
+      clearTimeout(recordingNoticeTimerRef.current)
+    }
+    setRecordingNotice(notice)
+    recordingNoticeTimerRef.current = setTimeout(() => setRecordingNotice(null), RECORDING_NOTICE_MS)
+  }
+
+  // Asks everyone in the call; recording only starts once all of them accept
+  const requestRecording = () => {
+    const peerIds = Array.from(peerConnectionsRef.current.keys())
+    if (peerIds.length === 0 || recordingPendingRef.current) return
+
+    console.log(`[${username}] Asking to record`)
+    recordingPendingRef.current = new Set(peerIds)
+    recordingConsentedRef.current = new Set(peerIds)
+    setAwaitingRecordingConsent(true)
+    peerIds.forEach((peerId) => sendSignalingMessage(peerId, { event: "recording-request", username }))
+    logRecordingConsent("requested")
+
+    recordingTimerRef.current = setTimeout(() => {
+      cancelRecordingRequest()
+      showRecordingNotice("Not everyone answered, so recording didn't start")
+    }, RECORDING_CONSENT_TIMEOUT_MS)
+  }
+
+  const cancelRecordingRequest = () => {
+    recordingPendingRef.current?.forEach((peerId) => sendSignalingMessage(peerId, { event: "recording-cancel" }))
+    recordingPendingRef.current = null
+    if (recordingTimerRef.current) {
+      clearTimeout(recordingTimerRef.current)
+      recordingTimerRef.current = null
+    }
+    setAwaitingRecordingConsent(false)
+  }
+
+  const handleRecordingResponse = (peerId: string, peerName: string, accepted: boolean) => {
+    const pending = recordingPendingRef.current
+    if (!pending?.has(peerId)) return
+
+    pending.delete(peerId)
+    if (!accepted) {
+      console.log(`[${username}] ${peerId} declined recording`)
+      cancelRecordingRequest()
+      showRecordingNotice(`${peerName || "Someone"} declined recording`)
+      return
+    }
+
+    if (pending.size === 0) {
+      cancelRecordingRequest()
+      startRecording()
+    }
+  }
+
+  const answerRecordingRequest = (accepted: boolean) => {
+    if (!recordingRequest) return
+
+    sendSignalingMessage(recordingRequest.senderId, { event: "recording-response", username, accepted })
+    logRecordingConsent(accepted ? "accepted" : "declined")
+    setRecordingRequest(null)
+  }
+
+  const recordingSources = (): RecordingSource[] => [
+    { id: userId, tracks: localTracks().filter((track): track is MediaStreamTrack => !!track) },
+    ...Array.from(peerConnectionsRef.current.entries()).map(([peerId, peerConnection]) => ({
+      id: peerId,
+      tracks: peerConnection
+        .getReceivers()
+        .map((receiver) => receiver.track)
+        .filter((track) => track.readyState === "live"),
+    })),
+  ]
+
+  const startRecording = () => {
+    try {
+      recorderRef.current = startCallRecording(recordingSources, downloadRecording)
+      console.log(`[${username}] Recording started`)
+      setIsRecording(true)
+      trackPresence()
+      logRecordingConsent("started")
+    } catch (error) {
+      console.error(`[${username}] Error starting recording:`, error)
+      showRecordingNotice("Recording isn't supported in this browser")
+    }
+  }
+
+  const stopRecording = () => {
+    if (!recorderRef.current) return
+
+    console.log(`[${username}] Recording stopped`)
+    recorderRef.current.stop()
+    recorderRef.current = null
+    recordingConsentedRef.current = new Set()
+    setIsRecording(false)
+    trackPresence()
+    logRecordingConsent("stopped")
+  }
+
+  const toggleRecording = () => {
+    if (isRecording) {
+      stopRecording()
+    } else if (remoteRecorder) {
+      sendSignalingMessage(remoteRecorder.userId, { event: "recording-stop", username })
+    } else {
+      requestRecording()
+    }
+  }
+
+  // Read by presence, which can be sent before the isRecording state catches up
+  const recorderActive = () => recorderRef.current !== null
+
+  // Ending the call finishes the recording and downloads what we have
+  const stop = () => {
+    if (recorderRef.current) {
+      recorderRef.current.stop()
+      recorderRef.current = null
+      logRecordingConsent("stopped")
+    }
+    if (recordingTimerRef.current) {
+      clearTimeout(recordingTimerRef.current)
+      recordingTimerRef.current = null
+    }
+    if (recordingNoticeTimerRef.current) {
+      clearTimeout(recordingNoticeTimerRef.current)
+      recordingNoticeTimerRef.current = null
+    }
+  }
+
+  return {
+    isRecording,
+    awaitingRecordingConsent,
+    recordingRequest,
+    recordingNotice,
+    recorderActive,
+    handleRecordingMessage,
+    handlePeersPresent,
+    toggleRecording,
+    answerRecordingRequest,
+    cancelRecordingRequest,
+    stop,
+  }
+}
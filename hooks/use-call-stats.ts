@@ -0,0 +1,224 @@
+"use client"
+
+import { useEffect, useRef, useState, type RefObject } from "react"
+import { summarizeStats, type CallStats, type StatsSnapshot } from "@/lib/call-stats"
+import { applyVideoQuality, assessLink, LOWEST_QUALITY_LEVEL, VIDEO_QUALITY_LEVELS } from "@/lib/video-quality"
+
+// How often getStats() is polled for the quality overlay and signal bars
+const STATS_POLL_INTERVAL_MS = 2000
+
+// Polls in a row a link has to be poor (or good) before its video quality steps down (or back up)
+const DOWNGRADE_AFTER_POLLS = 2
+const UPGRADE_AFTER_POLLS = 5
+
+// Poor polls at the lowest quality before offering audio only; an unanswered offer switches on its own
+const AUDIO_ONLY_AFTER_POLLS = 3
+const AUTO_AUDIO_ONLY_DELAY_MS = 10000
+
+// Good polls needed before video comes back after falling back to audio only
+const RESTORE_VIDEO_AFTER_POLLS = 8
+
+interface PeerQuality {
+  level: number
+  poorPolls: number
+  goodPolls: number
+}
+
+interface CallStatsOptions {
+  username: string
+  audioOnly: boolean
+  peerConnectionsRef: RefObject<Map<string, RTCPeerConnection>>
+  localStreamRef: RefObject<MediaStream | null>
+  screenStreamRef: RefObject<MediaStream | null>
+  // The camera was turned off for a weak connection, or back on once it recovered
+  onCameraChange: (enabled: boolean) => void
+}
+
+// Polls each connection's stats, steps outgoing video quality with the link, and falls back to audio only
+// when even the lowest quality is too much
+export function useCallStats({
+  username,
+  audioOnly,
+  peerConnectionsRef,
+  localStreamRef,
+  screenStreamRef,
+  onCameraChange,
+}: CallStatsOptions) {
+  const statsSnapshotsRef = useRef<Map<string, StatsSnapshot>>(new Map())
+  const peerQualityRef = useRef<Map<string, PeerQuality>>(new Map())
+  const weakPollsRef = useRef(0)
+  const strongPollsRef = useRef(0)
+  // Set when we turned the camera off for a weak link, as opposed to the student doing it
+  const audioFallbackRef = useRef(false)
+  // The student said to keep video, so don't offer audio only again this call
+  const keepVideoRef = useRef(false)
+  const audioOnlyTimerRef = useRef<NodeJS.Timeout | null>(null)
+
+  const [callStats, setCallStats] = useState<Record<string, CallStats>>({})
+  const [audioOnlyOffered, setAudioOnlyOffered] = useState(false)
+  const [audioFallback, setAudioFallback] = useState(false)
+
+  useEffect(() => {
+    const interval = setInterval(pollStats, STATS_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  const pollStats = async () => {
+    const next: Record<string, CallStats> = {}
+    const snapshots = new Map<string, StatsSnapshot>()
+
+    await Promise.all(
+      Array.from(peerConnectionsRef.current.entries()).map(async ([peerId, peerConnection]) => {
+        if (peerConnection.connectionState !== "connected") return
+
+        try {
+          const report = await peerConnection.getStats()
+          const { stats, snapshot } = summarizeStats(report, statsSnapshotsRef.current.get(peerId) ?? null)
+          next[peerId] = stats
+          snapshots.set(peerId, snapshot)
+        } catch (error) {
+          console.error(`[${username}] Error reading stats for ${peerId}:`, error)
+        }
+      }),
+    )
+
+    // Rebuilt each poll so peers that left or dropped don't keep stale numbers
+    statsSnapshotsRef.current = snapshots
+    setCallStats(next)
+    adaptVideoQuality(next)
+  }
+
+  // Steps each connection's outgoing video down while its link is poor and back up once it recovers. At the
+  // lowest step we offer to drop to audio only, and bring video back when every link is good again.
+  const adaptVideoQuality = (stats: Record<string, CallStats>) => {
+    const cameraTrack = localStreamRef.current?.getVideoTracks()[0]
+    if (audioOnly || !cameraTrack) return
+
+    if (audioFallbackRef.current) {
+      const links = Object.values(stats).map((peerStats) => assessLink(peerStats, null))
+      const allGood = links.length > 0 && links.every((link) => link === "good")
+      strongPollsRef.current = allGood ? strongPollsRef.current + 1 : 0
+      if (strongPollsRef.current >= RESTORE_VIDEO_AFTER_POLLS) {
+        console.log(`[${username}] Connection recovered, turning video back on`)
+        restoreVideo()
+      }
+      return
+    }
+
+    // Nothing to adapt with the camera off, and presentations stay at full quality
+    if (!cameraTrack.enabled || screenStreamRef.current) return
+
+    let weakest = false
+    Object.entries(stats).forEach(([peerId, peerStats]) => {
+      const peerConnection = peerConnectionsRef.current.get(peerId)
+      if (!peerConnection) return
+
+      const quality = peerQualityRef.current.get(peerId) ?? { level: 0, poorPolls: 0, goodPolls: 0 }
+      const link = assessLink(peerStats, quality.level)
+      quality.poorPolls = link === "poor" ? quality.poorPolls + 1 : 0
+      quality.goodPolls = link === "good" ? quality.goodPolls + 1 : 0
+
+      const level =
+        quality.poorPolls >= DOWNGRADE_AFTER_POLLS && quality.level < LOWEST_QUALITY_LEVEL
+          ? quality.level + 1
+          : quality.goodPolls >= UPGRADE_AFTER_POLLS && quality.level > 0
+            ? quality.level - 1
+            : quality.level
+
+      if (level !== quality.level) {
+        console.log(`[${username}] Video quality for ${peerId}: ${VIDEO_QUALITY_LEVELS[level].label}`)
+        peerQualityRef.current.set(peerId, { level, poorPolls: 0, goodPolls: 0 })
+        applyVideoQuality(peerConnection, level).catch((error) => {
+          console.error(`[${username}] Error setting video quality:`, error)
+        })
+        return
+      }
+
+      peerQualityRef.current.set(peerId, quality)
+      if (quality.level === LOWEST_QUALITY_LEVEL && link === "poor") {
+        weakest = true
+      }
+    })
+
+    weakPollsRef.current = weakest ? weakPollsRef.current + 1 : 0
+    if (weakPollsRef.current >= AUDIO_ONLY_AFTER_POLLS && !keepVideoRef.current && !audioOnlyTimerRef.current) {
+      console.log(`[${username}] Connection too weak for video, offering audio only`)
+      setAudioOnlyOffered(true)
+      audioOnlyTimerRef.current = setTimeout(switchToAudioOnly, AUTO_AUDIO_ONLY_DELAY_MS)
+    } else if (weakPollsRef.current === 0 && audioOnlyTimerRef.current) {
+      // The link picked up before anyone answered
+      withdrawAudioOnlyOffer()
+    }
+  }
+
+  // Quality steps taken for the camera would blur a shared screen
+  const resetVideoQuality = async () => {
+    peerQualityRef.current.clear()
+    await Promise.all(
+      Array.from(peerConnectionsRef.current.values()).map((peerConnection) => applyVideoQuality(peerConnection, 0)),
+    )
+  }
+
+  const forgetPeer = (peerId: string) => {
+    peerQualityRef.current.delete(peerId)
+  }
+
+  const withdrawAudioOnlyOffer = () => {
+    if (audioOnlyTimerRef.current) {
+      clearTimeout(audioOnlyTimerRef.current)
+      audioOnlyTimerRef.current = null
+    }
+    setAudioOnlyOffered(false)
+  }
+
+  const switchToAudioOnly = () => {
+    withdrawAudioOnlyOffer()
+    const cameraTrack = localStreamRef.current?.getVideoTracks()[0]
+    if (!cameraTrack?.enabled) return
+
+    console.log(`[${username}] Switching to audio only`)
+    cameraTrack.enabled = false
+    audioFallbackRef.current = true
+    strongPollsRef.current = 0
+    setAudioFallback(true)
+    onCameraChange(false)
+  }
+
+  // Turning the camera back on during a fallback counts as keeping video too
+  const keepVideo = () => {
+    keepVideoRef.current = true
+    withdrawAudioOnlyOffer()
+    if (audioFallbackRef.current) {
+      restoreVideo()
+    }
+  }
+
+  const restoreVideo = () => {
+    const cameraTrack = localStreamRef.current?.getVideoTracks()[0]
+    audioFallbackRef.current = false
+    weakPollsRef.current = 0
+    setAudioFallback(false)
+    if (!cameraTrack) return
+
+    cameraTrack.enabled = true
+    onCameraChange(true)
+  }
+
+  const stop = () => {
+    if (audioOnlyTimerRef.current) {
+      clearTimeout(audioOnlyTimerRef.current)
+      audioOnlyTimerRef.current = null
+    }
+  }
+
+  return {
+    callStats,
+    audioOnlyOffered,
+    audioFallback,
+    switchToAudioOnly,
+    keepVideo,
+    resetVideoQuality,
+    forgetPeer,
+    stop,
+  }
+}
@@ -0,0 +1,177 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { RealtimeChannel } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabase"
+import {
+  INTEREST_MATCH_WAIT_SECONDS,
+  QUEUE_HEARTBEAT_INTERVAL_MS,
+  QUEUE_STATUS_REFRESH_MS,
+  requestMatch,
+  type MatchRequest,
+  type QueueStatus,
+} from "@/lib/matchmaking"
+
+interface MatchedRoom {
+  is_direct: boolean
+}
+
+// Queueing, heartbeats, queue status polling and the match listener shared by both chat interfaces.
+// onMatch is called once with the room we were matched into, whether /api/match or a partner claimed it.
+export function useMatchmaking<Room extends MatchedRoom>(userId: string | undefined, onMatch: (room: Room) => void) {
+  const [isSearching, setIsSearching] = useState(false)
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null)
+  const matchChannelRef = useRef<RealtimeChannel | null>(null)
+  const relaxMatchTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const heartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const queueStatusIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const onMatchRef = useRef(onMatch)
+  onMatchRef.current = onMatch
+
+  useEffect(() => {
+    return () => {
+      stopWaitingForMatch()
+    }
+  }, [])
+
+  const findMatch = async (request: MatchRequest) => {
+    if (!userId) return
+
+    setIsSearching(true)
+
+    try {
+      // Listen before queueing so a partner who claims us right away isn't missed
+      await subscribeToMatches(userId)
+
+      const matched = await claimMatch(request)
+
+      if (!matched) {
+        startHeartbeat(request)
+        startQueueStatusPolling()
+      }
+
+      if (!matched && request.interests?.length) {
+        // Nobody shares our interests yet; check again once we're willing to match with anyone
+        relaxMatchTimeoutRef.current = setTimeout(() => {
+          claimMatch(request).catch((error) => console.error("Error finding match:", error))
+        }, INTEREST_MATCH_WAIT_SECONDS * 1000)
+      }
+    } catch (error) {
+      console.error("Error finding match:", error)
+      stopWaitingForMatch()
+      setIsSearching(false)
+    }
+  }
+
+  const claimMatch = async (request: MatchRequest) => {
+    const room = await requestMatch(request)
+
+    if (room) {
+      joinRoom(room)
+      return true
+    }
+    return false
+  }
+
+  const startHeartbeat = (request: MatchRequest) => {
+    // Keeps our queue entry fresh so matchmaking and the cleanup job know we're still here
+    heartbeatIntervalRef.current = setInterval(async () => {
+      const { data: queued, error } = await supabase.rpc("queue_heartbeat")
+      if (error) {
+        console.error("Error refreshing queue entry:", error)
+      } else if (!queued && matchChannelRef.current) {
+        // Our entry was swept while we were away; queue again (or pick up a room we were matched into)
+        claimMatch(request).catch((error) => console.error("Error finding match:", error))
+      }
+    }, QUEUE_HEARTBEAT_INTERVAL_MS)
+  }
+
+  const subscribeToMatches = (userId: string) => {
+    stopWaitingForMatch()
+
+    return new Promise<void>((resolve, reject) => {
+      // claim_match always puts the waiting partner in user2_id
+      const channel = supabase
+        .channel(`match-${userId}`)
+        .on(
+          "postgres_changes",
+          {
+            event: "INSERT",
+            schema: "public",
+            table: "chat_rooms",
+            filter: `user2_id=eq.${userId}`,
+          },
+          (payload) => {
+            // Direct rooms from contacts are invites, shown by the contacts list instead
+            if ((payload.new as Room).is_direct) return
+            joinRoom(payload.new as Room)
+          },
+        )
+        .subscribe((status, err) => {
+          if (status === "SUBSCRIBED") {
+            resolve()
+          } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+            reject(err ?? new Error(`Match channel ${status}`))
+          }
+        })
+
+      matchChannelRef.current = channel
+    })
+  }
+
+  // Matches made elsewhere move the queue along, so poll our position while we wait
+  const startQueueStatusPolling = () => {
+    refreshQueueStatus()
+    queueStatusIntervalRef.current = setInterval(refreshQueueStatus, QUEUE_STATUS_REFRESH_MS)
+  }
+
+  const refreshQueueStatus = async () => {
+    const { data, error } = await supabase.rpc("queue_status")
+    if (error) {
+      console.error("Error loading queue status:", error)
+      return
+    }
+    // Ignore late responses that arrive after we've been matched or cancelled
+    if (matchChannelRef.current && data?.[0]) {
+      setQueueStatus(data[0])
+    }
+  }
+
+  const stopWaitingForMatch = () => {
+    setQueueStatus(null)
+    if (heartbeatIntervalRef.current) {
+      clearInterval(heartbeatIntervalRef.current)
+      heartbeatIntervalRef.current = null
+    }
+    if (relaxMatchTimeoutRef.current) {
+      clearTimeout(relaxMatchTimeoutRef.current)
+      relaxMatchTimeoutRef.current = null
+    }
+    if (queueStatusIntervalRef.current) {
+      clearInterval(queueStatusIntervalRef.current)
+      queueStatusIntervalRef.current = null
+    }
+    if (matchChannelRef.current) {
+      supabase.removeChannel(matchChannelRef.current)
+      matchChannelRef.current = null
+    }
+  }
+
+  const joinRoom = (room: Room) => {
+    // The room can arrive both from /api/match and from the insert event
+    if (!matchChannelRef.current) return
+    stopWaitingForMatch()
+    setIsSearching(false)
+    onMatchRef.current(room)
+  }
+
+  const stopSearching = async () => {
+    stopWaitingForMatch()
+    setIsSearching(false)
+    if (userId) {
+      await supabase.from("waiting_queue").delete().eq("user_id", userId)
+    }
+  }
+
+  return { isSearching, queueStatus, findMatch, stopSearching }
+}
@@ -0,0 +1,508 @@
+"use client"
+
+import { useRef, useState, type RefObject } from "react"
+import type { RealtimeChannel } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabase"
+import { MAX_GROUP_PARTICIPANTS } from "@/lib/matchmaking"
+import { defaultIceServers } from "@/lib/ice-servers"
+import {
+  onSignal,
+  RECORDING_EVENTS,
+  sendSignal,
+  type RecordingSignal,
+  type SignalingMessage,
+} from "@/lib/call-signaling"
+
+// ICE restarts after a drop wait 1s, 2s, 4s... before each attempt; after the last one we offer to re-dial
+const MAX_ICE_RESTART_ATTEMPTS = 5
+const ICE_RESTART_BASE_DELAY_MS = 1000
+
+// Unanswered hellos and offers are sent again this often, up to this many times
+const SIGNALING_RETRY_DELAY_MS = 2000
+const MAX_SIGNALING_RETRIES = 5
+
+interface PresenceState {
+  userId: string
+  username: string
+  audioEnabled: boolean
+  videoEnabled: boolean
+  screenSharing: boolean
+  recording: boolean
+}
+
+export interface RemoteParticipant {
+  userId: string
+  username: string
+  stream: MediaStream | null
+  audioEnabled: boolean
+  videoEnabled: boolean
+  screenSharing: boolean
+  recording: boolean
+  connectionState: RTCPeerConnectionState
+  reconnecting: boolean
+  reconnectFailed: boolean
+}
+
+export type ConnectionStatus = "connecting" | "connected" | "reconnecting" | "disconnected"
+
+interface PeerMeshOptions {
+  roomId: string
+  userId: string
+  username: string
+  // Our camera and mic, added to every connection
+  localStreamRef: RefObject<MediaStream | null>
+  // What peers see in place of the camera track, e.g. a shared screen
+  outgoingVideoTrack: () => MediaStreamTrack | undefined
+  // Our side of presence, as everyone else in the room sees it
+  presence: () => Omit<PresenceState, "userId" | "username">
+  onPeerConnection: (peerId: string, peerConnection: RTCPeerConnection) => void
+  // The connection was thrown away, because the peer left or was re-dialed
+  onPeerClosed: (peerId: string) => void
+  // Everyone else in the room, after each presence sync
+  onPresenceSync: (peerIds: string[]) => void
+  onRecordingMessage: (message: RecordingSignal) => void
+}
+
+// One RTCPeerConnection per remote participant, negotiated over the room's broadcast channel, with presence
+// deciding who is in the call. Everyone in the room is connected to everyone else.
+export function usePeerMesh(options: PeerMeshOptions) {
+  const { roomId, userId, username, localStreamRef } = options
+  // The channel's handlers outlive this render, so they call back through the latest options
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  const peerConnectionsRef = useRef<Map<string, RTCPeerConnection>>(new Map())
+  const signalingChannelRef = useRef<RealtimeChannel | null>(null)
+  const iceCandidatesQueue = useRef<Map<string, RTCIceCandidateInit[]>>(new Map())
+  const iceServersRef = useRef<RTCIceServer[]>(defaultIceServers())
+  const iceRestartTimersRef = useRef<Map<string, NodeJS.Timeout>>(new Map())
+  const iceRestartAttemptsRef = useRef<Map<string, number>>(new Map())
+  const helloTimersRef = useRef<Map<string, NodeJS.Timeout>>(new Map())
+  const offerRetryTimersRef = useRef<Map<string, NodeJS.Timeout>>(new Map())
+  const makingOfferRef = useRef<Map<string, boolean>>(new Map())
+  const ignoreOfferRef = useRef<Map<string, boolean>>(new Map())
+  // Tells a peer that rejoined (new tab, remount) apart from a repeated hello
+  const sessionIdRef = useRef(crypto.randomUUID())
+  const peerSessionsRef = useRef<Map<string, string>>(new Map())
+
+  const [participants, setParticipants] = useState<Record<string, RemoteParticipant>>({})
+
+  const updateParticipant = (peerId: string, update: Partial<RemoteParticipant>) => {
+    setParticipants((prev) => {
+      const current: RemoteParticipant = prev[peerId] ?? {
+        userId: peerId,
+        username: "",
+        stream: null,
+        audioEnabled: true,
+        videoEnabled: true,
+        screenSharing: false,
+        recording: false,
+        connectionState: "new",
+        reconnecting: false,
+        reconnectFailed: false,
+      }
+      return { ...prev, [peerId]: { ...current, ...update } }
+    })
+  }
+
+  const removeParticipant = (peerId: string) => {
+    setParticipants((prev) => {
+      const { [peerId]: _removed, ...rest } = prev
+      return rest
+    })
+  }
+
+  // Starts listening for and greeting everyone in the room, once our media is ready to send
+  const join = async (iceServers: RTCIceServer[]) => {
+    iceServersRef.current = iceServers
+    await setupSignalingChannel()
+  }
+
+  const createPeerConnection = (peerId: string) => {
+    const configuration = {
+      iceServers: iceServersRef.current,
+      iceCandidatePoolSize: 10,
+    }
+
+    const peerConnection = new RTCPeerConnection(configuration)
+    peerConnectionsRef.current.set(peerId, peerConnection)
+    updateParticipant(peerId, { connectionState: peerConnection.connectionState })
+    optionsRef.current.onPeerConnection(peerId, peerConnection)
+
+    // Peers who join while we're presenting get the screen, and otherwise the camera with its background effect
+    const stream = localStreamRef.current
+    const videoTrack = optionsRef.current.outgoingVideoTrack()
+    stream?.getTracks().forEach((track) => {
+      console.log(`[${username}] Adding track for ${peerId}:`, track.kind)
+      peerConnection.addTrack(track.kind === "video" ? (videoTrack ?? track) : track, stream)
+    })
+
+    peerConnection.ontrack = (event) => {
+      console.log(`[${username}] Received remote track from ${peerId}:`, event.track.kind)
+      if (event.streams[0]) {
+        updateParticipant(peerId, { stream: event.streams[0] })
+      }
+    }
+
+    // Either side may renegotiate at any time (first connection, ICE restarts); glare is sorted out in
+    // handleDescription
+    peerConnection.onnegotiationneeded = async () => {
+      try {
+        makingOfferRef.current.set(peerId, true)
+        await peerConnection.setLocalDescription()
+        console.log(`[${username}] Sending offer to ${peerId}`)
+        sendDescription(peerId, peerConnection)
+      } catch (error) {
+        console.error(`[${username}] Error creating offer:`, error)
+      } finally {
+        makingOfferRef.current.set(peerId, false)
+      }
+    }
+
+    peerConnection.onicecandidate = (event) => {
+      if (event.candidate) {
+        sendSignalingMessage(peerId, { event: "ice-candidate", candidate: event.candidate })
+      }
+    }
+
+    peerConnection.onconnectionstatechange = () => {
+      console.log(`[${username}] Connection state with ${peerId}:`, peerConnection.connectionState)
+      updateParticipant(peerId, { connectionState: peerConnection.connectionState })
+
+      if (peerConnection.connectionState === "connected") {
+        clearIceRestart(peerId)
+        updateParticipant(peerId, { reconnecting: false, reconnectFailed: false })
+      } else if (peerConnection.connectionState === "disconnected" || peerConnection.connectionState === "failed") {
+        scheduleIceRestart(peerId)
+      }
+    }
+
+    return peerConnection
+  }
+
+  const clearIceRestart = (peerId: string) => {
+    const timer = iceRestartTimersRef.current.get(peerId)
+    if (timer) clearTimeout(timer)
+    iceRestartTimersRef.current.delete(peerId)
+    iceRestartAttemptsRef.current.delete(peerId)
+  }
+
+  const clearSignalingTimers = (peerId: string) => {
+    const helloTimer = helloTimersRef.current.get(peerId)
+    if (helloTimer) clearTimeout(helloTimer)
+    helloTimersRef.current.delete(peerId)
+
+    const offerTimer = offerRetryTimersRef.current.get(peerId)
+    if (offerTimer) clearTimeout(offerTimer)
+    offerRetryTimersRef.current.delete(peerId)
+  }
+
+  // Each attempt waits twice as long as the last, which also gives the previous restart time to work
+  const scheduleIceRestart = (peerId: string) => {
+    if (iceRestartTimersRef.current.has(peerId)) return
+
+    const attempt = (iceRestartAttemptsRef.current.get(peerId) ?? 0) + 1
+    iceRestartAttemptsRef.current.set(peerId, attempt)
+    updateParticipant(peerId, { reconnecting: true })
+
+    const timer = setTimeout(() => {
+      iceRestartTimersRef.current.delete(peerId)
+
+      const peerConnection = peerConnectionsRef.current.get(peerId)
+      if (!peerConnection || peerConnection.connectionState === "connected") return
+
+      if (attempt > MAX_ICE_RESTART_ATTEMPTS) {
+        console.warn(`[${username}] Giving up on reconnecting to ${peerId}`)
+        updateParticipant(peerId, { reconnecting: false, reconnectFailed: true })
+        return
+      }
+
+      // Triggers negotiationneeded, which sends an offer with fresh ICE credentials
+      console.log(`[${username}] Restarting ICE with ${peerId}`)
+      peerConnection.restartIce()
+      scheduleIceRestart(peerId)
+    }, ICE_RESTART_BASE_DELAY_MS * 2 ** (attempt - 1))
+
+    iceRestartTimersRef.current.set(peerId, timer)
+  }
+
+  // Last resort once ICE restarts have failed: throw the connection away and negotiate a new one
+  const redialPeer = (peerId: string, notifyPeer: boolean) => {
+    console.log(`[${username}] Re-dialing ${peerId}`)
+    if (notifyPeer) {
+      sendSignalingMessage(peerId, { event: "redial" })
+    }
+
+    clearIceRestart(peerId)
+    clearSignalingTimers(peerId)
+    peerConnectionsRef.current.get(peerId)?.close()
+    peerConnectionsRef.current.delete(peerId)
+    iceCandidatesQueue.current.delete(peerId)
+    optionsRef.current.onPeerClosed(peerId)
+
+    createPeerConnection(peerId)
+    updateParticipant(peerId, { stream: null, reconnecting: false, reconnectFailed: false })
+  }
+
+  const redialFailed = () => {
+    Object.values(participants)
+      .filter((p) => p.reconnectFailed)
+      .forEach((p) => redialPeer(p.userId, true))
+  }
+
+  const closePeerConnection = (peerId: string) => {
+    console.log(`[${username}] Closing connection with ${peerId}`)
+    clearIceRestart(peerId)
+    clearSignalingTimers(peerId)
+    peerConnectionsRef.current.get(peerId)?.close()
+    peerConnectionsRef.current.delete(peerId)
+    iceCandidatesQueue.current.delete(peerId)
+    makingOfferRef.current.delete(peerId)
+    ignoreOfferRef.current.delete(peerId)
+    peerSessionsRef.current.delete(peerId)
+    optionsRef.current.onPeerClosed(peerId)
+    removeParticipant(peerId)
+  }
+
+  const setupSignalingChannel = async () => {
+    const channel = supabase.channel(`webrtc-${roomId}`, {
+      config: {
+        broadcast: { self: false },
+        presence: { key: userId },
+      },
+    })
+
+    channel.on("presence", { event: "sync" }, () => {
+      handlePresenceSync(channel)
+    })
+    onSignal(channel, userId, "hello", ({ senderId, sessionId }) => {
+      console.log(`[${username}] Received hello from ${senderId}`)
+      sendSignalingMessage(senderId, { event: "ready", sessionId: sessionIdRef.current })
+      connectToPeer(senderId, sessionId)
+    })
+    onSignal(channel, userId, "ready", ({ senderId, sessionId }) => {
+      console.log(`[${username}] ${senderId} is ready`)
+      connectToPeer(senderId, sessionId)
+    })
+    onSignal(channel, userId, "description", async ({ senderId, description }) => {
+      await handleDescription(senderId, description)
+    })
+    onSignal(channel, userId, "ice-candidate", async ({ senderId, candidate }) => {
+      await handleIceCandidate(senderId, candidate)
+    })
+    onSignal(channel, userId, "redial", ({ senderId }) => {
+      redialPeer(senderId, false)
+    })
+    RECORDING_EVENTS.forEach((event) => {
+      onSignal(channel, userId, event, (message) => optionsRef.current.onRecordingMessage(message))
+    })
+
+    signalingChannelRef.current = channel
+
+    channel.subscribe(async (status) => {
+      if (status === "SUBSCRIBED") {
+        console.log(`[${username}] Signaling channel setup complete`)
+        await trackPresence()
+      }
+    })
+  }
+
+  const trackPresence = async () => {
+    await signalingChannelRef.current?.track({
+      userId,
+      username,
+      ...optionsRef.current.presence(),
+    } satisfies PresenceState)
+  }
+
+  const handlePresenceSync = (channel: RealtimeChannel) => {
+    const present = new Map<string, PresenceState>()
+    Object.values(channel.presenceState<PresenceState>()).forEach((entries) => {
+      entries.forEach((entry) => present.set(entry.userId, entry))
+    })
+    present.delete(userId)
+
+    present.forEach((peer, peerId) => {
+      if (!peerConnectionsRef.current.has(peerId) && !helloTimersRef.current.has(peerId)) {
+        sendHello(peerId, 1)
+      }
+      updateParticipant(peerId, {
+        username: peer.username,
+        audioEnabled: peer.audioEnabled,
+        videoEnabled: peer.videoEnabled,
+        screenSharing: peer.screenSharing,
+        recording: peer.recording,
+      })
+    })
+
+    optionsRef.current.onPresenceSync(Array.from(present.keys()))
+
+    Array.from(peerConnectionsRef.current.keys()).forEach((peerId) => {
+      if (!present.has(peerId)) {
+        closePeerConnection(peerId)
+      }
+    })
+  }
+
+  // Presence can show a peer before its broadcast handlers are listening, so nothing is negotiated until
+  // it answers our hello (or says hello itself). Unanswered hellos are repeated a few times.
+  const sendHello = (peerId: string, attempt: number) => {
+    if (attempt > MAX_SIGNALING_RETRIES) {
+      console.warn(`[${username}] ${peerId} never answered hello`)
+      helloTimersRef.current.delete(peerId)
+      return
+    }
+
+    console.log(`[${username}] Saying hello to ${peerId}`)
+    sendSignalingMessage(peerId, { event: "hello", sessionId: sessionIdRef.current })
+    helloTimersRef.current.set(
+      peerId,
+      setTimeout(() => sendHello(peerId, attempt + 1), SIGNALING_RETRY_DELAY_MS),
+    )
+  }
+
+  const connectToPeer = (peerId: string, sessionId: string) => {
+    const helloTimer = helloTimersRef.current.get(peerId)
+    if (helloTimer) clearTimeout(helloTimer)
+    helloTimersRef.current.delete(peerId)
+
+    const knownSession = peerSessionsRef.current.get(peerId)
+    peerSessionsRef.current.set(peerId, sessionId)
+
+    if (peerConnectionsRef.current.has(peerId)) {
+      // Our connection belongs to the peer's previous session and can't be renegotiated
+      if (knownSession && knownSession !== sessionId) {
+        redialPeer(peerId, false)
+      }
+      return
+    }
+    if (peerConnectionsRef.current.size >= MAX_GROUP_PARTICIPANTS - 1) {
+      console.warn(`[${username}] Room is full, not connecting to ${peerId}`)
+      return
+    }
+    createPeerConnection(peerId)
+  }
+
+  const sendSignalingMessage = (targetId: string, message: SignalingMessage) => {
+    if (signalingChannelRef.current) {
+      sendSignal(signalingChannelRef.current, { senderId: userId, roomId }, targetId, message)
+    }
+  }
+
+  const sendDescription = (peerId: string, peerConnection: RTCPeerConnection) => {
+    const description = peerConnection.localDescription
+    if (!description) return
+
+    sendSignalingMessage(peerId, { event: "description", description })
+    if (description.type === "offer") {
+      retryUnansweredOffer(peerId, peerConnection, description.sdp, 1)
+    }
+  }
+
+  // Broadcasts can be dropped; if neither the offer nor its answer made it, send the offer again
+  const retryUnansweredOffer = (peerId: string, peerConnection: RTCPeerConnection, sdp: string, attempt: number) => {
+    const existing = offerRetryTimersRef.current.get(peerId)
+    if (existing) clearTimeout(existing)
+
+    const timer = setTimeout(() => {
+      offerRetryTimersRef.current.delete(peerId)
+      if (peerConnection.signalingState !== "have-local-offer" || peerConnection.localDescription?.sdp !== sdp) {
+        return
+      }
+      if (attempt > MAX_SIGNALING_RETRIES) {
+        console.warn(`[${username}] ${peerId} never answered our offer`)
+        return
+      }
+
+      console.log(`[${username}] Resending offer to ${peerId}`)
+      sendSignalingMessage(peerId, { event: "description", description: peerConnection.localDescription })
+      retryUnansweredOffer(peerId, peerConnection, sdp, attempt + 1)
+    }, SIGNALING_RETRY_DELAY_MS)
+
+    offerRetryTimersRef.current.set(peerId, timer)
+  }
+
+  const flushIceCandidates = async (peerId: string, peerConnection: RTCPeerConnection) => {
+    const queued = iceCandidatesQueue.current.get(peerId) ?? []
+    iceCandidatesQueue.current.delete(peerId)
+    for (const candidate of queued) {
+      await peerConnection.addIceCandidate(candidate)
+    }
+  }
+
+  // Perfect negotiation: when both sides offer at once, the polite peer (larger user id) rolls back and
+  // answers, while the impolite peer ignores the incoming offer and waits for its own to be answered
+  const handleDescription = async (peerId: string, description: RTCSessionDescriptionInit) => {
+    // The offer can beat the hello/ready exchange that would have created this connection
+    const peerConnection = peerConnectionsRef.current.get(peerId) ?? createPeerConnection(peerId)
+    const polite = userId > peerId
+
+    try {
+      const offerCollision =
+        description.type === "offer" &&
+        (makingOfferRef.current.get(peerId) || peerConnection.signalingState !== "stable")
+      const ignoreOffer = !polite && offerCollision
+      ignoreOfferRef.current.set(peerId, ignoreOffer)
+
+      if (ignoreOffer) {
+        console.log(`[${username}] Ignoring colliding offer from ${peerId}`)
+        return
+      }
+
+      console.log(`[${username}] Handling ${description.type} from ${peerId}`)
+      await peerConnection.setRemoteDescription(description)
+      await flushIceCandidates(peerId, peerConnection)
+
+      if (description.type === "offer") {
+        await peerConnection.setLocalDescription()
+        console.log(`[${username}] Sending answer to ${peerId}`)
+        sendDescription(peerId, peerConnection)
+      }
+    } catch (error) {
+      console.error(`[${username}] Error handling ${description.type}:`, error)
+    }
+  }
+
+  const handleIceCandidate = async (peerId: string, candidate: RTCIceCandidateInit) => {
+    try {
+      const peerConnection = peerConnectionsRef.current.get(peerId)
+      if (peerConnection?.remoteDescription) {
+        await peerConnection.addIceCandidate(candidate)
+      } else {
+        iceCandidatesQueue.current.set(peerId, [...(iceCandidatesQueue.current.get(peerId) ?? []), candidate])
+      }
+    } catch (error) {
+      // Candidates for an offer we ignored are expected to fail
+      if (!ignoreOfferRef.current.get(peerId)) {
+        console.error(`[${username}] Error handling ICE candidate:`, error)
+      }
+    }
+  }
+
+  // Hangs up on everyone and leaves the room
+  const leave = () => {
+    iceRestartTimersRef.current.forEach((timer) => clearTimeout(timer))
+    iceRestartTimersRef.current.clear()
+    helloTimersRef.current.forEach((timer) => clearTimeout(timer))
+    helloTimersRef.current.clear()
+    offerRetryTimersRef.current.forEach((timer) => clearTimeout(timer))
+    offerRetryTimersRef.current.clear()
+    peerConnectionsRef.current.forEach((peerConnection) => peerConnection.close())
+    peerConnectionsRef.current.clear()
+    if (signalingChannelRef.current) {
+      supabase.removeChannel(signalingChannelRef.current)
+      signalingChannelRef.current = null
+    }
+  }
+
+  return {
+    remoteParticipants: Object.values(participants),
+    peerConnectionsRef,
+    join,
+    leave,
+    sendSignalingMessage,
+    trackPresence,
+    redialPeer,
+    redialFailed,
+  }
+}
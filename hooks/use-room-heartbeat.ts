@@ -0,0 +1,21 @@
+"use client"
+
+import { useEffect } from "react"
+import { supabase } from "@/lib/supabase"
+import { ROOM_HEARTBEAT_INTERVAL_MS } from "@/lib/matchmaking"
+
+// Tells the cleanup job we're still in the room; rooms nobody heartbeats for two minutes are closed
+export function useRoomHeartbeat(roomId: string | undefined) {
+  useEffect(() => {
+    if (!roomId) return
+
+    const beat = async () => {
+      const { error } = await supabase.rpc("room_heartbeat", { p_room_id: roomId })
+      if (error) console.error("Error refreshing room presence:", error)
+    }
+
+    beat()
+    const interval = setInterval(beat, ROOM_HEARTBEAT_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [roomId])
+}
@@ -0,0 +1,36 @@
+// Reads how loud the microphone is with a Web Audio analyser. It listens to a clone of the track, so the level
+// keeps coming through while the student is muted and we can tell them they're talking into a muted mic.
+export interface LevelMeter {
+  // 0 (silence) to 1 (as loud as it gets)
+  getLevel: () => number
+  stop: () => void
+}
+
+// Quiet speech sits around 0.05 RMS; this scales it up so normal talking fills most of the meter
+const LEVEL_GAIN = 4
+
+export function createLevelMeter(track: MediaStreamTrack): LevelMeter {
+  const clone = track.clone()
+  clone.enabled = true
+
+  const context = new AudioContext()
+  const analyser = context.createAnalyser()
+  analyser.fftSize = 512
+  context.createMediaStreamSource(new MediaStream([clone])).connect(analyser)
+  const samples = new Float32Array(analyser.fftSize)
+
+  return {
+    getLevel: () => {
+      analyser.getFloatTimeDomainData(samples)
+      let sum = 0
+      for (const sample of samples) {
+        sum += sample * sample
+      }
+      return Math.min(1, Math.sqrt(sum / samples.length) * LEVEL_GAIN)
+    },
+    stop: () => {
+      clone.stop()
+      context.close().catch((error) => console.error("Error closing audio context:", error))
+    },
+  }
+}
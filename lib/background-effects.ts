@@ -0,0 +1,184 @@
+import type { ImageSegmenter, MPMask } from "@mediapipe/tasks-vision"
+
+export type BackgroundEffect = "none" | "blur" | "dusk" | "ocean" | "forest"
+
+export const BACKGROUND_EFFECTS: { value: BackgroundEffect; label: string; colors?: [string, string] }[] = [
+  { value: "none", label: "None" },
+  { value: "blur", label: "Blur" },
+  { value: "dusk", label: "Dusk", colors: ["#581c87", "#1e3a8a"] },
+  { value: "ocean", label: "Ocean", colors: ["#0e7490", "#1e40af"] },
+  { value: "forest", label: "Forest", colors: ["#166534", "#134e4a"] },
+]
+
+const BACKGROUND_EFFECT_KEY = "campuschat:background-effect"
+
+// The segmentation runtime and model are served by the app itself, not a CDN. scripts/copy-segmentation-assets.mjs
+// puts them in public/segmentation before dev and build; set this to serve them from another host instead.
+const SEGMENTATION_ASSETS_URL = process.env.NEXT_PUBLIC_SEGMENTATION_ASSETS_URL || "/segmentation"
+
+// Segmentation runs on the CPU, so frames are processed at a lower rate than the camera delivers them
+const PROCESSING_FPS = 20
+const BLUR_RADIUS_PX = 12
+
+export function loadBackgroundEffect(): BackgroundEffect {
+  try {
+    const saved = localStorage.getItem(BACKGROUND_EFFECT_KEY)
+    return BACKGROUND_EFFECTS.some((effect) => effect.value === saved) ? (saved as BackgroundEffect) : "none"
+  } catch {
+    return "none"
+  }
+}
+
+export function saveBackgroundEffect(effect: BackgroundEffect) {
+  try {
+    localStorage.setItem(BACKGROUND_EFFECT_KEY, effect)
+  } catch (error) {
+    console.error("Error saving background effect:", error)
+  }
+}
+
+let segmenterPromise: Promise<ImageSegmenter> | null = null
+
+// Loaded once and shared by the pre-call preview and the call itself. Imported on demand so students who never
+// turn an effect on don't download the runtime, and so it stays out of server rendering.
+function loadSegmenter() {
+  if (!segmenterPromise) {
+    segmenterPromise = import("@mediapipe/tasks-vision").then(async ({ FilesetResolver, ImageSegmenter }) => {
+      const fileset = await FilesetResolver.forVisionTasks(`${SEGMENTATION_ASSETS_URL}/wasm`)
+      return ImageSegmenter.createFromOptions(fileset, {
+        baseOptions: { modelAssetPath: `${SEGMENTATION_ASSETS_URL}/selfie_segmenter.tflite`, delegate: "CPU" },
+        runningMode: "VIDEO",
+        outputCategoryMask: false,
+        outputConfidenceMasks: true,
+      })
+    })
+    // Let a later attempt try again rather than caching the failure
+    segmenterPromise.catch(() => {
+      segmenterPromise = null
+    })
+  }
+  return segmenterPromise
+}
+
+export interface BackgroundProcessor {
+  // The processed video, ready to send or preview in place of the camera track
+  track: MediaStreamTrack
+  setEffect: (effect: BackgroundEffect) => void
+  // Follows a camera switch without replacing the processed track
+  setSource: (source: MediaStreamTrack) => void
+  stop: () => void
+}
+
+// Draws the camera into a canvas each frame, keeping the person the segmenter finds and blurring or replacing
+// everything else. The processed track mirrors the camera's enabled flag, so muting the camera still works.
+export async function createBackgroundProcessor(
+  source: MediaStreamTrack,
+  effect: BackgroundEffect,
+): Promise<BackgroundProcessor> {
+  const segmenter = await loadSegmenter()
+
+  const video = document.createElement("video")
+  video.muted = true
+  video.playsInline = true
+  video.srcObject = new MediaStream([source])
+  await video.play()
+
+  const canvas = document.createElement("canvas")
+  const context = canvas.getContext("2d")!
+  const maskCanvas = document.createElement("canvas")
+  const maskContext = maskCanvas.getContext("2d")!
+  canvas.width = video.videoWidth || 640
+  canvas.height = video.videoHeight || 480
+  const track = canvas.captureStream(PROCESSING_FPS).getVideoTracks()[0]
+
+  let currentEffect = effect
+  let currentSource = source
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const drawBackground = (width: number, height: number) => {
+    const colors = BACKGROUND_EFFECTS.find((option) => option.value === currentEffect)?.colors
+    if (colors) {
+      const gradient = context.createLinearGradient(0, 0, width, height)
+      gradient.addColorStop(0, colors[0])
+      gradient.addColorStop(1, colors[1])
+      context.fillStyle = gradient
+      context.fillRect(0, 0, width, height)
+    } else {
+      context.filter = `blur(${BLUR_RADIUS_PX}px)`
+      context.drawImage(video, 0, 0, width, height)
+      context.filter = "none"
+    }
+  }
+
+  const composite = (mask: MPMask) => {
+    const { width, height } = canvas
+    if (maskCanvas.width !== mask.width || maskCanvas.height !== mask.height) {
+      maskCanvas.width = mask.width
+      maskCanvas.height = mask.height
+    }
+
+    // Confidence that each pixel is the person becomes the mask's alpha
+    const confidence = mask.getAsFloat32Array()
+    const image = maskContext.createImageData(mask.width, mask.height)
+    for (let i = 0; i < confidence.length; i++) {
+      image.data[i * 4 + 3] = confidence[i] * 255
+    }
+    maskContext.putImageData(image, 0, 0)
+
+    context.save()
+    context.globalCompositeOperation = "copy"
+    context.drawImage(maskCanvas, 0, 0, width, height)
+    context.globalCompositeOperation = "source-in"
+    context.drawImage(video, 0, 0, width, height)
+    context.globalCompositeOperation = "destination-over"
+    drawBackground(width, height)
+    context.restore()
+  }
+
+  const drawFrame = () => {
+    track.enabled = currentSource.enabled
+
+    if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && currentSource.enabled) {
+      // A new camera may have a different resolution
+      if (video.videoWidth && (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight)) {
+        canvas.width = video.videoWidth
+        canvas.height = video.videoHeight
+      }
+
+      if (currentEffect === "none") {
+        context.drawImage(video, 0, 0, canvas.width, canvas.height)
+      } else {
+        try {
+          segmenter.segmentForVideo(video, performance.now(), (result) => {
+            const mask = result.confidenceMasks?.[0]
+            if (mask) composite(mask)
+          })
+        } catch (error) {
+          console.error("Error segmenting video frame:", error)
+        }
+      }
+    }
+
+    // A timer rather than requestAnimationFrame, which stops in background tabs and would freeze our video
+    timer = setTimeout(drawFrame, 1000 / PROCESSING_FPS)
+  }
+
+  drawFrame()
+
+  return {
+    track,
+    setEffect: (next) => {
+      currentEffect = next
+    },
+    setSource: (next) => {
+      currentSource = next
+      video.srcObject = new MediaStream([next])
+      video.play().catch((error) => console.error("Error playing camera for background effects:", error))
+    },
+    stop: () => {
+      if (timer) clearTimeout(timer)
+      track.stop()
+      video.srcObject = null
+    },
+  }
+}
@@ -0,0 +1,95 @@
+// In-call chat and file transfer over an RTCDataChannel on each peer connection. Chat messages are JSON
+// strings; files are announced with a JSON "file-start" and then sent as binary chunks tagged with the file's id.
+
+// Same shape as a row in the messages table, since chat sent in a call is saved there too
+export interface CallChatMessage {
+  id: string
+  content: string
+  sender_id: string
+  sender_username: string
+  created_at: string
+}
+
+export interface FileTransfer {
+  id: string
+  name: string
+  size: number
+  direction: "incoming" | "outgoing"
+  senderName: string
+  // 0 to 1
+  progress: number
+  // Object URL for a finished incoming file
+  url?: string
+  failed?: boolean
+  createdAt: string
+}
+
+export type DataChannelMessage =
+  | { type: "chat"; message: CallChatMessage }
+  | { type: "file-start"; fileId: string; name: string; size: number; mimeType: string; senderName: string }
+
+// Files are held in memory on both sides until the call ends
+export const MAX_FILE_SIZE = 50 * 1024 * 1024
+
+// 16 KB chunks are safe across browsers; sending pauses while more than 1 MB is queued on the channel
+const CHUNK_SIZE = 16 * 1024
+const MAX_BUFFERED_AMOUNT = 1024 * 1024
+
+// Every binary chunk starts with the file id (a UUID, always 36 ASCII characters)
+const FILE_ID_BYTES = 36
+
+// Both sides create the channel with the same id, so it's there as soon as the connection is, without waiting
+// for ondatachannel or an extra negotiation
+export function createCallDataChannel(peerConnection: RTCPeerConnection) {
+  const channel = peerConnection.createDataChannel("campuschat", { negotiated: true, id: 0 })
+  channel.binaryType = "arraybuffer"
+  channel.bufferedAmountLowThreshold = MAX_BUFFERED_AMOUNT / 2
+  return channel
+}
+
+export function decodeChunk(buffer: ArrayBuffer): { fileId: string; data: ArrayBuffer } {
+  return {
+    fileId: new TextDecoder().decode(buffer.slice(0, FILE_ID_BYTES)),
+    data: buffer.slice(FILE_ID_BYTES),
+  }
+}
+
+function encodeChunk(fileId: string, data: ArrayBuffer): ArrayBuffer {
+  const chunk = new Uint8Array(FILE_ID_BYTES + data.byteLength)
+  chunk.set(new TextEncoder().encode(fileId))
+  chunk.set(new Uint8Array(data), FILE_ID_BYTES)
+  return chunk.buffer
+}
+
+function waitForBufferedAmountLow(channel: RTCDataChannel) {
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      channel.removeEventListener("bufferedamountlow", done)
+      channel.removeEventListener("close", done)
+      resolve()
+    }
+    channel.addEventListener("bufferedamountlow", done)
+    channel.addEventListener("close", done)
+  })
+}
+
+// Sends the file's chunks after its "file-start" message, reporting how many bytes have gone out
+export async function sendFileChunks(
+  channel: RTCDataChannel,
+  fileId: string,
+  file: File,
+  onProgress: (sentBytes: number) => void,
+) {
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    if (channel.bufferedAmount > MAX_BUFFERED_AMOUNT) {
+      await waitForBufferedAmountLow(channel)
+    }
+    if (channel.readyState !== "open") {
+      throw new Error("The connection closed before the file was sent")
+    }
+
+    const data = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer()
+    channel.send(encodeChunk(fileId, data))
+    onProgress(Math.min(offset + CHUNK_SIZE, file.size))
+  }
+}
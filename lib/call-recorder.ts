@@ -0,0 +1,152 @@
+// Records a call in the browser: every participant's video is tiled onto a canvas, their audio is mixed with
+// Web Audio, and MediaRecorder turns the result into a WebM file.
+
+export interface RecordingSource {
+  id: string
+  tracks: MediaStreamTrack[]
+}
+
+export interface CallRecorder {
+  // Finishes the file and hands it to onFinished
+  stop: () => void
+}
+
+const RECORDING_WIDTH = 1280
+const RECORDING_HEIGHT = 720
+const RECORDING_FPS = 30
+
+const RECORDING_MIME_TYPES = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"]
+
+interface SourceNodes {
+  key: string
+  video: HTMLVideoElement | null
+  audio: MediaStreamAudioSourceNode | null
+}
+
+// Sources are looked up on every frame, so people who join, leave or switch devices mid-recording are picked up
+export function startCallRecording(
+  getSources: () => RecordingSource[],
+  onFinished: (recording: Blob) => void,
+): CallRecorder {
+  const canvas = document.createElement("canvas")
+  canvas.width = RECORDING_WIDTH
+  canvas.height = RECORDING_HEIGHT
+  const context = canvas.getContext("2d")!
+
+  const audioContext = new AudioContext()
+  const destination = audioContext.createMediaStreamDestination()
+  const nodes = new Map<string, SourceNodes>()
+
+  const release = (source: SourceNodes) => {
+    source.audio?.disconnect()
+    if (source.video) source.video.srcObject = null
+  }
+
+  // Rebuilds a source's video element and audio node when its tracks change
+  const syncSources = () => {
+    const sources = getSources()
+
+    sources.forEach(({ id, tracks }) => {
+      const key = tracks.map((track) => track.id).join(",")
+      const existing = nodes.get(id)
+      if (existing?.key === key) return
+      if (existing) release(existing)
+
+      const videoTracks = tracks.filter((track) => track.kind === "video")
+      const audioTracks = tracks.filter((track) => track.kind === "audio")
+
+      let video: HTMLVideoElement | null = null
+      if (videoTracks.length > 0) {
+        video = document.createElement("video")
+        video.muted = true
+        video.playsInline = true
+        video.srcObject = new MediaStream(videoTracks)
+        video.play().catch((error) => console.error("Error playing video for recording:", error))
+      }
+
+      let audio: MediaStreamAudioSourceNode | null = null
+      if (audioTracks.length > 0) {
+        audio = audioContext.createMediaStreamSource(new MediaStream(audioTracks))
+        audio.connect(destination)
+      }
+
+      nodes.set(id, { key, video, audio })
+    })
+
+    const ids = new Set(sources.map((source) => source.id))
+    nodes.forEach((source, id) => {
+      if (!ids.has(id)) {
+        release(source)
+        nodes.delete(id)
+      }
+    })
+  }
+
+  const drawFrame = () => {
+    syncSources()
+
+    context.fillStyle = "#111827"
+    context.fillRect(0, 0, RECORDING_WIDTH, RECORDING_HEIGHT)
+
+    const tiles = Array.from(nodes.values())
+    const columns = Math.ceil(Math.sqrt(tiles.length))
+    const rows = Math.ceil(tiles.length / columns)
+    const tileWidth = RECORDING_WIDTH / Math.max(columns, 1)
+    const tileHeight = RECORDING_HEIGHT / Math.max(rows, 1)
+
+    tiles.forEach(({ video }, index) => {
+      if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return
+
+      // Fit each video inside its tile without stretching it
+      const x = (index % columns) * tileWidth
+      const y = Math.floor(index / columns) * tileHeight
+      const scale = Math.min(tileWidth / video.videoWidth, tileHeight / video.videoHeight)
+      const width = video.videoWidth * scale
+      const height = video.videoHeight * scale
+      context.drawImage(video, x + (tileWidth - width) / 2, y + (tileHeight - height) / 2, width, height)
+    })
+  }
+
+  // A timer rather than requestAnimationFrame, which stops when the tab is in the background
+  const timer = setInterval(drawFrame, 1000 / RECORDING_FPS)
+  drawFrame()
+
+  const stream = new MediaStream([
+    ...canvas.captureStream(RECORDING_FPS).getVideoTracks(),
+    ...destination.stream.getAudioTracks(),
+  ])
+  const mimeType = RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type))
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+  const chunks: Blob[] = []
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data)
+  }
+
+  recorder.onstop = () => {
+    clearInterval(timer)
+    stream.getTracks().forEach((track) => track.stop())
+    nodes.forEach(release)
+    nodes.clear()
+    audioContext.close().catch((error) => console.error("Error closing recording audio:", error))
+    onFinished(new Blob(chunks, { type: recorder.mimeType || "video/webm" }))
+  }
+
+  // Handed over in one-second chunks rather than as one large buffer when recording stops
+  recorder.start(1000)
+
+  return {
+    stop: () => {
+      if (recorder.state !== "inactive") recorder.stop()
+    },
+  }
+}
+
+export function downloadRecording(recording: Blob) {
+  const url = URL.createObjectURL(recording)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `campuschat-recording-${new Date().toISOString().replace(/[:.]/g, "-")}.webm`
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,64 @@
+import type { RealtimeChannel } from "@supabase/supabase-js"
+
+// Messages peers in a call send each other over the room's broadcast channel. Broadcasts reach everyone in
+// the room, so each one is addressed to a single peer and the others ignore it.
+
+export type SignalingMessage =
+  // hello asks a peer to connect; ready is the reply. The session id tells a rejoined peer from a repeat.
+  | { event: "hello"; sessionId: string }
+  | { event: "ready"; sessionId: string }
+  // An offer or an answer
+  | { event: "description"; description: RTCSessionDescriptionInit }
+  | { event: "ice-candidate"; candidate: RTCIceCandidateInit }
+  | { event: "redial" }
+  | { event: "recording-request"; username: string }
+  | { event: "recording-response"; username: string; accepted: boolean }
+  | { event: "recording-cancel" }
+  | { event: "recording-stop"; username: string }
+
+export type SignalingEvent = SignalingMessage["event"]
+
+// A message as it arrives, with who sent it
+export type ReceivedSignal<E extends SignalingEvent> = Extract<SignalingMessage, { event: E }> & {
+  senderId: string
+  targetId: string
+  roomId: string
+}
+
+// Asking for, answering and ending a recording; the recording handles these rather than the connection
+export const RECORDING_EVENTS = [
+  "recording-request",
+  "recording-response",
+  "recording-cancel",
+  "recording-stop",
+] as const
+
+export type RecordingSignal = ReceivedSignal<(typeof RECORDING_EVENTS)[number]>
+
+export function sendSignal(
+  channel: RealtimeChannel,
+  from: { senderId: string; roomId: string },
+  targetId: string,
+  message: SignalingMessage,
+) {
+  const { event, ...data } = message
+  return channel.send({
+    type: "broadcast",
+    event,
+    payload: { ...data, ...from, targetId },
+  })
+}
+
+// Calls handler with each message of this kind addressed to userId
+export function onSignal<E extends SignalingEvent>(
+  channel: RealtimeChannel,
+  userId: string,
+  event: E,
+  handler: (message: ReceivedSignal<E>) => void,
+) {
+  return channel.on("broadcast", { event }, ({ payload }) => {
+    if (payload.targetId === userId) {
+      handler({ ...payload, event } as ReceivedSignal<E>)
+    }
+  })
+}
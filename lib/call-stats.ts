@@ -0,0 +1,154 @@
+// Boils an RTCPeerConnection.getStats() report down to the numbers shown in the call-quality overlay.
+// Bitrates and packet loss are rates, so each poll is compared with the previous one.
+
+export interface CallStats {
+  roundTripTimeMs: number | null
+  // Share of incoming packets lost since the previous poll
+  packetLossPercent: number | null
+  // Share of our packets the peer reports as lost
+  outboundPacketLossPercent: number | null
+  jitterMs: number | null
+  inboundKbps: number | null
+  outboundKbps: number | null
+  availableOutgoingKbps: number | null
+  frameWidth: number | null
+  frameHeight: number | null
+  framesPerSecond: number | null
+  // Whether media goes through a TURN relay rather than directly between peers
+  relayed: boolean | null
+}
+
+export interface StatsSnapshot {
+  timestamp: number
+  bytesReceived: number
+  bytesSent: number
+  packetsReceived: number
+  packetsLost: number
+}
+
+// lib.dom has no types for these two yet; only the fields read below
+interface RemoteInboundRtpStats extends RTCReceivedRtpStreamStats {
+  type: "remote-inbound-rtp"
+  fractionLost?: number
+}
+
+interface IceCandidateStats extends RTCStats {
+  type: "local-candidate" | "remote-candidate"
+  candidateType?: RTCIceCandidateType
+}
+
+// Report entries keyed on type, so checking stat.type is enough to read the right fields
+type ReportStats =
+  | (RTCTransportStats & { type: "transport" })
+  | (RTCIceCandidatePairStats & { type: "candidate-pair" })
+  | (RTCInboundRtpStreamStats & { type: "inbound-rtp" })
+  | (RTCOutboundRtpStreamStats & { type: "outbound-rtp" })
+  | RemoteInboundRtpStats
+  | IceCandidateStats
+  | (RTCStats & {
+      type: Exclude<
+        RTCStatsType,
+        | "transport"
+        | "candidate-pair"
+        | "inbound-rtp"
+        | "outbound-rtp"
+        | "remote-inbound-rtp"
+        | "local-candidate"
+        | "remote-candidate"
+      >
+    })
+
+export function summarizeStats(
+  report: RTCStatsReport,
+  previous: StatsSnapshot | null,
+): { stats: CallStats; snapshot: StatsSnapshot } {
+  const byId = new Map<string, ReportStats>()
+  report.forEach((stat: ReportStats) => byId.set(stat.id, stat))
+
+  const candidatePair = (id: string | undefined) => {
+    const stat = id ? byId.get(id) : undefined
+    return stat?.type === "candidate-pair" ? stat : null
+  }
+  const candidate = (id: string) => {
+    const stat = byId.get(id)
+    return stat?.type === "local-candidate" || stat?.type === "remote-candidate" ? stat : null
+  }
+
+  let selectedPair: RTCIceCandidatePairStats | null = null
+  let videoIn: RTCInboundRtpStreamStats | null = null
+  let audioIn: RTCInboundRtpStreamStats | null = null
+  let remoteInbound: RemoteInboundRtpStats | null = null
+  let bytesReceived = 0
+  let bytesSent = 0
+  let packetsReceived = 0
+  let packetsLost = 0
+  let timestamp = 0
+
+  for (const stat of byId.values()) {
+    timestamp = Math.max(timestamp, stat.timestamp)
+
+    if (stat.type === "transport" && stat.selectedCandidatePairId) {
+      selectedPair = candidatePair(stat.selectedCandidatePairId) ?? selectedPair
+    } else if (stat.type === "candidate-pair" && stat.nominated && stat.state === "succeeded" && !selectedPair) {
+      // Firefox has no transport stats and marks the pair in use as nominated instead
+      selectedPair = stat
+    } else if (stat.type === "inbound-rtp") {
+      bytesReceived += stat.bytesReceived ?? 0
+      packetsReceived += stat.packetsReceived ?? 0
+      packetsLost += stat.packetsLost ?? 0
+      if (stat.kind === "video") videoIn = stat
+      if (stat.kind === "audio") audioIn = stat
+    } else if (stat.type === "outbound-rtp") {
+      bytesSent += stat.bytesSent ?? 0
+    } else if (stat.type === "remote-inbound-rtp" && (stat.kind === "video" || !remoteInbound)) {
+      remoteInbound = stat
+    }
+  }
+
+  const seconds = previous ? (timestamp - previous.timestamp) / 1000 : 0
+  const rate = (current: number, before: number | undefined) =>
+    seconds > 0 && before !== undefined ? Math.max(0, Math.round(((current - before) * 8) / 1000 / seconds)) : null
+
+  const lostSince = previous ? packetsLost - previous.packetsLost : 0
+  const receivedSince = previous ? packetsReceived - previous.packetsReceived : 0
+  const localCandidate = selectedPair ? candidate(selectedPair.localCandidateId) : null
+  const remoteCandidate = selectedPair ? candidate(selectedPair.remoteCandidateId) : null
+  const jitter = audioIn?.jitter ?? videoIn?.jitter
+
+  return {
+    stats: {
+      roundTripTimeMs:
+        selectedPair?.currentRoundTripTime !== undefined ? Math.round(selectedPair.currentRoundTripTime * 1000) : null,
+      packetLossPercent:
+        previous && lostSince + receivedSince > 0 ? (Math.max(0, lostSince) / (lostSince + receivedSince)) * 100 : null,
+      outboundPacketLossPercent: remoteInbound?.fractionLost !== undefined ? remoteInbound.fractionLost * 100 : null,
+      jitterMs: jitter !== undefined ? Math.round(jitter * 1000) : null,
+      inboundKbps: rate(bytesReceived, previous?.bytesReceived),
+      outboundKbps: rate(bytesSent, previous?.bytesSent),
+      availableOutgoingKbps:
+        selectedPair?.availableOutgoingBitrate !== undefined
+          ? Math.round(selectedPair.availableOutgoingBitrate / 1000)
+          : null,
+      frameWidth: videoIn?.frameWidth ?? null,
+      frameHeight: videoIn?.frameHeight ?? null,
+      framesPerSecond: videoIn?.framesPerSecond ?? null,
+      relayed:
+        localCandidate || remoteCandidate
+          ? localCandidate?.candidateType === "relay" || remoteCandidate?.candidateType === "relay"
+          : null,
+    },
+    snapshot: { timestamp, bytesReceived, bytesSent, packetsReceived, packetsLost },
+  }
+}
+
+// 1 (poor) to 4 (excellent) bars, or null before there's anything to judge
+export function signalLevel(stats: CallStats | undefined): number | null {
+  if (!stats || (stats.roundTripTimeMs === null && stats.packetLossPercent === null)) return null
+
+  const rtt = stats.roundTripTimeMs ?? 0
+  const loss = stats.packetLossPercent ?? 0
+  if (loss > 10 || rtt > 600) return 1
+  if (loss > 5 || rtt > 300) return 2
+  if (loss > 2 || rtt > 150) return 3
+  return 4
+}
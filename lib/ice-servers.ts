@@ -0,0 +1,31 @@
+import { authHeaders } from "@/lib/supabase"
+
+// Public STUN servers, overridable with a comma-separated NEXT_PUBLIC_STUN_URLS
+export const STUN_URLS = (
+  process.env.NEXT_PUBLIC_STUN_URLS ||
+  "stun:stun.l.google.com:19302,stun:stun1.l.google.com:19302,stun:stun2.l.google.com:19302,stun:stun3.l.google.com:19302"
+)
+  .split(",")
+  .map((url) => url.trim())
+  .filter(Boolean)
+
+export function defaultIceServers(): RTCIceServer[] {
+  return STUN_URLS.length > 0 ? [{ urls: STUN_URLS }] : []
+}
+
+// Asks /api/turn-credentials for STUN plus short-lived TURN credentials. Falls back to STUN only, which is
+// still enough for most home networks, if the route fails.
+export async function fetchIceServers(): Promise<RTCIceServer[]> {
+  try {
+    const response = await fetch("/api/turn-credentials", { headers: await authHeaders() })
+    const body = await response.json()
+
+    if (!response.ok) {
+      throw new Error(body.error || "Could not load TURN credentials")
+    }
+    return body.iceServers
+  } catch (error) {
+    console.error("Error loading ICE servers:", error)
+    return defaultIceServers()
+  }
+}
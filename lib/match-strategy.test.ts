@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_STRATEGY_OPTIONS, rankCandidates, type QueueEntry, type StrategyOptions } from "@/lib/match-strategy"
+
+const NOW = Date.parse("2025-01-01T12:00:00Z")
+
+function secondsAgo(seconds: number): string {
+  return new Date(NOW - seconds * 1000).toISOString()
+}
+
+// A fresh queue entry that has been waiting `waited` seconds
+function entry(userId: string, waited: number, overrides: Partial<QueueEntry> = {}): QueueEntry {
+  return {
+    user_id: userId,
+    username: userId,
+    interests: [],
+    college_domain: "state.edu",
+    campus_preference: "any",
+    course_codes: [],
+    chat_mode: "video",
+    created_at: secondsAgo(waited),
+    last_seen_at: secondsAgo(0),
+    ...overrides,
+  }
+}
+
+function options(overrides: Partial<StrategyOptions> = {}): StrategyOptions {
+  return { ...DEFAULT_STRATEGY_OPTIONS, now: NOW, excludedUserIds: [], ...overrides }
+}
+
+function rankedIds(seeker: QueueEntry, queue: QueueEntry[], overrides: Partial<StrategyOptions> = {}): string[] {
+  return rankCandidates(seeker, [seeker, ...queue], options(overrides)).map((candidate) => candidate.entry.user_id)
+}
+
+describe("rankCandidates", () => {
+  it("puts the longest waiter first", () => {
+    const seeker = entry("seeker", 0)
+    const queue = [entry("a", 5), entry("b", 25), entry("c", 12)]
+
+    expect(rankedIds(seeker, queue)).toEqual(["b", "c", "a"])
+  })
+
+  it("breaks ties on enqueue time and user id, not queue order", () => {
+    const seeker = entry("seeker", 0)
+    const queue = [entry("b", 10), entry("a", 10)]
+
+    expect(rankedIds(seeker, queue)).toEqual(["a", "b"])
+    expect(rankedIds(seeker, [...queue].reverse())).toEqual(["a", "b"])
+  })
+
+  it("skips entries that stopped heartbeating and other chat modes", () => {
+    const seeker = entry("seeker", 0)
+    const queue = [
+      entry("stale", 60, { last_seen_at: secondsAgo(DEFAULT_STRATEGY_OPTIONS.staleAfterSeconds + 1) }),
+      entry("voice", 20, { chat_mode: "voice" }),
+      entry("fresh", 5),
+    ]
+
+    expect(rankedIds(seeker, queue)).toEqual(["fresh"])
+  })
+
+  describe("interests", () => {
+    it("only pairs students with shared interests until the wait runs out", () => {
+      const seeker = entry("seeker", 0, { interests: ["Music"] })
+      const queue = [entry("gamer", 10, { interests: ["Gaming"] }), entry("musician", 5, { interests: ["Music"] })]
+
+      expect(rankedIds(seeker, queue)).toEqual(["musician"])
+    })
+
+    it("relaxes to anyone once both sides have waited INTEREST_MATCH_WAIT_SECONDS", () => {
+      const wait = 45
+      const seeker = entry("seeker", wait, { interests: ["Music"] })
+      const gamer = entry("gamer", wait - 1, { interests: ["Gaming"] })
+
+      expect(rankedIds(seeker, [gamer], { interestWaitSeconds: wait })).toEqual([])
+
+      const gamerWaitedOut = { ...gamer, created_at: secondsAgo(wait) }
+      expect(rankedIds(seeker, [gamerWaitedOut], { interestWaitSeconds: wait })).toEqual(["gamer"])
+    })
+
+    it("counts each shared interest as a head start", () => {
+      const seeker = entry("seeker", 60, { interests: ["Music", "Sports"] })
+      const queue = [entry("waited", 45), entry("shares", 10, { interests: ["Music", "Sports"] })]
+
+      // 10 seconds plus two shared interests beats 45 seconds of waiting
+      expect(rankedIds(seeker, queue)).toEqual(["shares", "waited"])
+    })
+  })
+
+  describe("campus preference", () => {
+    it("keeps to the preferred campus however long the seeker has waited", () => {
+      const seeker = entry("seeker", 600, { campus_preference: "same" })
+      const queue = [entry("elsewhere", 300, { college_domain: "tech.edu" }), entry("classmate", 5)]
+
+      expect(rankedIds(seeker, queue)).toEqual(["classmate"])
+      expect(rankedIds({ ...seeker, campus_preference: "other" }, queue)).toEqual(["elsewhere"])
+    })
+
+    it("respects the candidate's preference as well as the seeker's", () => {
+      const seeker = entry("seeker", 0, { college_domain: "tech.edu" })
+      const queue = [entry("homebody", 10, { campus_preference: "same" }), entry("anywhere", 5)]
+
+      expect(rankedIds(seeker, queue)).toEqual(["anywhere"])
+    })
+  })
+
+  describe("exclusions", () => {
+    it("leaves out recent partners still in their cooldown", () => {
+      const seeker = entry("seeker", 0)
+      const queue = [entry("last-partner", 50), entry("stranger", 5)]
+
+      expect(rankedIds(seeker, queue, { excludedUserIds: ["last-partner"] })).toEqual(["stranger"])
+    })
+
+    it("leaves out blocked students however long they've waited", () => {
+      const seeker = entry("seeker", 600, { interests: ["Music"] })
+      const queue = [entry("blocked", 600, { interests: ["Music"] }), entry("stranger", 1)]
+
+      expect(rankedIds(seeker, queue, { excludedUserIds: ["blocked"] })).toEqual(["stranger"])
+    })
+  })
+
+  describe("study mode", () => {
+    it("only pairs classmates from the same college in a shared course", () => {
+      const seeker = entry("seeker", 0, { course_codes: ["CS 101", "MATH 200"] })
+      const queue = [
+        entry("classmate", 5, { course_codes: ["MATH 200"] }),
+        entry("other-college", 20, { course_codes: ["CS 101"], college_domain: "tech.edu" }),
+        entry("not-studying", 30),
+      ]
+
+      const ranked = rankCandidates(seeker, [seeker, ...queue], options())
+      expect(ranked.map((candidate) => candidate.entry.user_id)).toEqual(["classmate"])
+      expect(ranked[0].courseCode).toBe("MATH 200")
+    })
+  })
+})
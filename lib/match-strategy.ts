@@ -0,0 +1,111 @@
+import type { CampusPreference, ChatMode } from "@/lib/matchmaking"
+
+// Pure, deterministic partner selection. Given the same seeker, queue snapshot and options it always
+// returns the same ranking, so it can be exercised with simulated queues. Claiming the chosen partner
+// atomically is left to the claim_match Postgres function.
+
+export interface QueueEntry {
+  user_id: string
+  username: string | null
+  interests: string[]
+  college_domain: string | null
+  campus_preference: CampusPreference
+  course_codes: string[]
+  chat_mode: ChatMode
+  created_at: string
+  last_seen_at: string
+}
+
+export interface StrategyOptions {
+  // Current time in milliseconds since the epoch
+  now: number
+  // Entries not refreshed by a heartbeat for this long are ignored
+  staleAfterSeconds: number
+  // Students hold out for shared interests this long before accepting anyone
+  interestWaitSeconds: number
+  // Users the seeker must not be paired with (recent partners and blocks in either direction)
+  excludedUserIds: string[]
+  // How many seconds of waiting one shared interest is worth when ranking
+  secondsPerSharedInterest: number
+}
+
+export interface RankedCandidate {
+  entry: QueueEntry
+  score: number
+  sharedInterests: string[]
+  courseCode: string | null
+}
+
+export const DEFAULT_STRATEGY_OPTIONS: Omit<StrategyOptions, "now" | "excludedUserIds"> = {
+  staleAfterSeconds: 30,
+  interestWaitSeconds: 30,
+  secondsPerSharedInterest: 20,
+}
+
+export function waitedSeconds(entry: QueueEntry, now: number): number {
+  return Math.max(0, (now - new Date(entry.created_at).getTime()) / 1000)
+}
+
+function intersect(a: string[], b: string[]): string[] {
+  const other = new Set(b)
+  return Array.from(new Set(a.filter((value) => other.has(value)))).sort()
+}
+
+// Campus preferences are hard constraints: "My campus only" never matches another college, however long it takes
+function campusAllows(preference: CampusPreference, ownDomain: string | null, otherDomain: string | null): boolean {
+  if (preference === "same") return ownDomain !== null && ownDomain === otherDomain
+  if (preference === "other") return ownDomain !== null && otherDomain !== null && ownDomain !== otherDomain
+  return true
+}
+
+// A student with no interests picked, or who has waited out the interest window, takes anyone
+function isOpenToAnyone(entry: QueueEntry, options: StrategyOptions): boolean {
+  return entry.interests.length === 0 || waitedSeconds(entry, options.now) >= options.interestWaitSeconds
+}
+
+export function isCompatible(seeker: QueueEntry, candidate: QueueEntry, options: StrategyOptions): boolean {
+  if (seeker.user_id === candidate.user_id) return false
+  if (options.excludedUserIds.includes(candidate.user_id)) return false
+  if (seeker.chat_mode !== candidate.chat_mode) return false
+
+  const staleBefore = options.now - options.staleAfterSeconds * 1000
+  if (new Date(candidate.last_seen_at).getTime() < staleBefore) return false
+
+  // Study mode only pairs classmates from the same college, and never mixes with regular searches
+  if (seeker.course_codes.length > 0 || candidate.course_codes.length > 0) {
+    return (
+      seeker.college_domain !== null &&
+      seeker.college_domain === candidate.college_domain &&
+      intersect(seeker.course_codes, candidate.course_codes).length > 0
+    )
+  }
+
+  if (!campusAllows(seeker.campus_preference, seeker.college_domain, candidate.college_domain)) return false
+  if (!campusAllows(candidate.campus_preference, candidate.college_domain, seeker.college_domain)) return false
+
+  if (intersect(seeker.interests, candidate.interests).length > 0) return true
+  return isOpenToAnyone(seeker, options) && isOpenToAnyone(candidate, options)
+}
+
+// Longest waiters come first; each shared interest counts as a head start of secondsPerSharedInterest.
+// Ties fall back to enqueue time, then user id, so the order never depends on query order.
+export function rankCandidates(seeker: QueueEntry, queue: QueueEntry[], options: StrategyOptions): RankedCandidate[] {
+  return queue
+    .filter((candidate) => isCompatible(seeker, candidate, options))
+    .map((candidate) => {
+      const sharedInterests = intersect(seeker.interests, candidate.interests)
+      const sharedCourses = intersect(seeker.course_codes, candidate.course_codes)
+      return {
+        entry: candidate,
+        score: waitedSeconds(candidate, options.now) + sharedInterests.length * options.secondsPerSharedInterest,
+        sharedInterests,
+        courseCode: sharedCourses[0] ?? null,
+      }
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.entry.created_at.localeCompare(b.entry.created_at) ||
+        a.entry.user_id.localeCompare(b.entry.user_id),
+    )
+}
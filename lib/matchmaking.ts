@@ -0,0 +1,97 @@
+import { authHeaders } from "@/lib/supabase"
+
+// Interest tags students can pick before searching
+export const INTEREST_TAGS = [
+  "CS",
+  "Engineering",
+  "Pre-med",
+  "Business",
+  "Music",
+  "Gaming",
+  "Sports",
+  "Art",
+  "Film",
+  "Books",
+]
+
+// How long to hold out for a partner with shared interests before matching with anyone
+export const INTEREST_MATCH_WAIT_SECONDS = Number(process.env.NEXT_PUBLIC_INTEREST_MATCH_WAIT_SECONDS) || 30
+
+export type CampusPreference = "same" | "other" | "any"
+
+export const CAMPUS_PREFERENCES: { value: CampusPreference; label: string }[] = [
+  { value: "same", label: "My campus only" },
+  { value: "other", label: "Other campuses only" },
+  { value: "any", label: "Anyone" },
+]
+
+export type ChatMode = "text" | "voice" | "video"
+
+// Only students who picked the same mode are matched with each other
+export const CHAT_MODES: { value: ChatMode; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "voice", label: "Voice" },
+  { value: "video", label: "Video" },
+]
+
+// Searching clients refresh their queue entry this often; matchmaking skips entries older than 30 seconds
+export const QUEUE_HEARTBEAT_INTERVAL_MS = 10_000
+
+// Clients in a room refresh their presence this often; rooms nobody has refreshed for two minutes are closed
+export const ROOM_HEARTBEAT_INTERVAL_MS = 30_000
+
+// Searching clients poll their queue position this often
+export const QUEUE_STATUS_REFRESH_MS = 3_000
+
+// Students won't be matched with the same partner again until this long after their last chat ended
+export const REMATCH_COOLDOWN_SECONDS = Number(process.env.NEXT_PUBLIC_REMATCH_COOLDOWN_SECONDS) || 300
+
+export interface QueueStatus {
+  queue_size: number
+  queue_position: number | null
+  estimated_wait_seconds: number | null
+}
+
+export function formatWaitEstimate(seconds: number | null): string {
+  if (seconds === null) return "Not enough recent matches to estimate"
+  if (seconds < 60) return "Less than a minute"
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `About ${minutes} min`
+  return "Over an hour"
+}
+
+// "cs101", "CS  101" and "cs 101" all become "CS 101" so codes compare equal in the queue
+export function normalizeCourseCode(code: string): string {
+  return code
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, " ")
+    .replace(/^([A-Z]+)\s?(\d)/, "$1 $2")
+}
+
+// Group rooms are a full mesh of peer connections, so keep them small
+export const MAX_GROUP_PARTICIPANTS = 6
+
+// Who is asking comes from the session, not the request body
+export interface MatchRequest {
+  username: string | null
+  interests?: string[]
+  campusPreference?: CampusPreference
+  courseCodes?: string[]
+  chatMode?: ChatMode
+}
+
+// Asks /api/match for a partner. Resolves to the new room, or null if we were queued to wait.
+export async function requestMatch(request: MatchRequest) {
+  const response = await fetch("/api/match", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+    body: JSON.stringify(request),
+  })
+  const body = await response.json()
+
+  if (!response.ok) {
+    throw new Error(body.error || "Matchmaking failed")
+  }
+  return body.room
+}
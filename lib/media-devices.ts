@@ -0,0 +1,82 @@
+// The camera, microphone and speaker a student picked, remembered across sessions in localStorage
+export interface DevicePreferences {
+  audioInputId?: string
+  videoInputId?: string
+  audioOutputId?: string
+}
+
+const DEVICE_PREFERENCES_KEY = "campuschat:media-devices"
+
+// The browser's own microphone clean-up, all on by default
+export interface AudioProcessing {
+  noiseSuppression: boolean
+  echoCancellation: boolean
+  autoGainControl: boolean
+}
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessing = {
+  noiseSuppression: true,
+  echoCancellation: true,
+  autoGainControl: true,
+}
+
+const AUDIO_PROCESSING_KEY = "campuschat:audio-processing"
+
+export function loadDevicePreferences(): DevicePreferences {
+  try {
+    return JSON.parse(localStorage.getItem(DEVICE_PREFERENCES_KEY) || "{}")
+  } catch {
+    return {}
+  }
+}
+
+export function saveDevicePreferences(preferences: DevicePreferences) {
+  try {
+    localStorage.setItem(DEVICE_PREFERENCES_KEY, JSON.stringify(preferences))
+  } catch (error) {
+    console.error("Error saving device preferences:", error)
+  }
+}
+
+export function loadAudioProcessing(): AudioProcessing {
+  try {
+    return { ...DEFAULT_AUDIO_PROCESSING, ...JSON.parse(localStorage.getItem(AUDIO_PROCESSING_KEY) || "{}") }
+  } catch {
+    return DEFAULT_AUDIO_PROCESSING
+  }
+}
+
+export function saveAudioProcessing(processing: AudioProcessing) {
+  try {
+    localStorage.setItem(AUDIO_PROCESSING_KEY, JSON.stringify(processing))
+  } catch (error) {
+    console.error("Error saving audio processing settings:", error)
+  }
+}
+
+// "ideal" rather than "exact" so an unplugged device falls back to the default instead of failing the call
+export function videoConstraints(deviceId?: string): MediaTrackConstraints {
+  return { width: 640, height: 480, ...(deviceId ? { deviceId: { ideal: deviceId } } : {}) }
+}
+
+export function audioConstraints(deviceId?: string): MediaTrackConstraints {
+  return { ...loadAudioProcessing(), ...(deviceId ? { deviceId: { ideal: deviceId } } : {}) }
+}
+
+// setSinkId is missing from some browsers (Safari, Firefox before 116) and from our DOM typings
+type SinkableMediaElement = HTMLMediaElement & { setSinkId?: (sinkId: string) => Promise<void> }
+
+export function supportsOutputSelection(): boolean {
+  return typeof HTMLMediaElement !== "undefined" && "setSinkId" in HTMLMediaElement.prototype
+}
+
+export async function setOutputDevice(element: HTMLMediaElement, deviceId: string) {
+  const sinkable = element as SinkableMediaElement
+  if (!sinkable.setSinkId) return
+
+  try {
+    await sinkable.setSinkId(deviceId)
+  } catch (error) {
+    console.error("Error switching output device:", error)
+  }
+}
@@ -0,0 +1,22 @@
+import { createClient } from "@supabase/supabase-js"
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+// Server-only client that bypasses RLS; never import this from a client component
+export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+})
+
+// The signed-in student behind an API request, from the access token the client sends as a bearer token
+export async function getRequestUser(request: Request) {
+  const token = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "")
+  if (!token) return null
+
+  const {
+    data: { user },
+    error,
+  } = await supabaseAdmin.auth.getUser(token)
+  if (error) return null
+  return user
+}
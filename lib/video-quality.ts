@@ -0,0 +1,58 @@
+import type { CallStats } from "@/lib/call-stats"
+
+// Steps the outgoing camera video walks down as a link gets worse, applied per connection with
+// RTCRtpSender.setParameters so one weak peer doesn't drag everyone else down
+export interface VideoQualityLevel {
+  label: string
+  maxBitrate: number
+  scaleResolutionDownBy: number
+  maxFramerate: number
+}
+
+export const VIDEO_QUALITY_LEVELS: VideoQualityLevel[] = [
+  { label: "High", maxBitrate: 800_000, scaleResolutionDownBy: 1, maxFramerate: 30 },
+  { label: "Medium", maxBitrate: 450_000, scaleResolutionDownBy: 1.5, maxFramerate: 24 },
+  { label: "Low", maxBitrate: 250_000, scaleResolutionDownBy: 2, maxFramerate: 15 },
+  { label: "Minimal", maxBitrate: 120_000, scaleResolutionDownBy: 4, maxFramerate: 10 },
+]
+
+export const LOWEST_QUALITY_LEVEL = VIDEO_QUALITY_LEVELS.length - 1
+
+export type LinkQuality = "poor" | "fair" | "good"
+
+// Judges the link from what we send: loss the peer reports back, round-trip time, and the bandwidth the
+// browser estimates it has. Pass level null when no video is going out, so the estimate (which shrinks
+// to fit audio) doesn't count against the link.
+export function assessLink(stats: CallStats, level: number | null): LinkQuality {
+  const loss = stats.outboundPacketLossPercent ?? stats.packetLossPercent ?? 0
+  const rtt = stats.roundTripTimeMs ?? 0
+  const available = level === null ? null : stats.availableOutgoingKbps
+  const needed = level === null ? 0 : VIDEO_QUALITY_LEVELS[level].maxBitrate / 1000
+
+  if (loss > 8 || rtt > 500 || (available !== null && available < needed * 0.7)) return "poor"
+
+  // Only "good" if there's room for the next level up, otherwise we'd bounce straight back down
+  const higher = level === null ? null : VIDEO_QUALITY_LEVELS[level - 1]
+  const roomToGrow = available === null || !higher || available > (higher.maxBitrate / 1000) * 1.2
+  if (loss < 2 && rtt < 250 && roomToGrow) return "good"
+
+  return "fair"
+}
+
+export async function applyVideoQuality(peerConnection: RTCPeerConnection, level: number) {
+  const sender = peerConnection.getSenders().find((s) => s.track?.kind === "video")
+  if (!sender) return
+
+  const parameters = sender.getParameters()
+  // Empty until the connection has been negotiated
+  if (!parameters.encodings?.length) return
+
+  const { maxBitrate, scaleResolutionDownBy, maxFramerate } = VIDEO_QUALITY_LEVELS[level]
+  parameters.encodings.forEach((encoding) => {
+    encoding.maxBitrate = maxBitrate
+    encoding.scaleResolutionDownBy = scaleResolutionDownBy
+    encoding.maxFramerate = maxFramerate
+  })
+
+  await sender.setParameters(parameters)
+}
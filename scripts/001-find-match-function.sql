@@ -0,0 +1,62 @@
+-- Atomic matchmaking.
+--
+-- Reading waiting_queue, inserting chat_rooms and deleting the queue rows used
+-- to be separate client calls, so two searching users could each create a room
+-- for the other. find_match does all of it in one transaction.
+
+alter table public.waiting_queue add column if not exists created_at timestamptz not null default now();
+alter table public.chat_rooms add column if not exists created_at timestamptz not null default now();
+
+create or replace function public.find_match(p_user_id uuid, p_username text default null)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_partner waiting_queue%rowtype;
+  v_room chat_rooms%rowtype;
+begin
+  -- Only one matcher runs at a time. Row locks alone are not enough: two
+  -- callers that each lock their own queue row and skip the other's would
+  -- both end up waiting instead of being paired.
+  perform pg_advisory_xact_lock(hashtext('find_match'));
+
+  -- Somebody else may already have paired us while we were queued.
+  select * into v_room
+  from chat_rooms
+  where is_active
+    and (user1_id = p_user_id or user2_id = p_user_id)
+  order by created_at desc
+  limit 1;
+
+  if found then
+    delete from waiting_queue where user_id = p_user_id;
+    return v_room;
+  end if;
+
+  select * into v_partner
+  from waiting_queue
+  where user_id <> p_user_id
+  order by created_at
+  limit 1
+  for update skip locked;
+
+  if not found then
+    insert into waiting_queue (user_id, username)
+    values (p_user_id, p_username)
+    on conflict (user_id) do update set username = excluded.username;
+    return null;
+  end if;
+
+  delete from waiting_queue where user_id in (p_user_id, v_partner.user_id);
+
+  insert into chat_rooms (user1_id, user2_id, user1_username, user2_username, is_active)
+  values (p_user_id, v_partner.user_id, p_username, v_partner.username, true)
+  returning * into v_room;
+
+  return v_room;
+end;
+$$;
+
+grant execute on function public.find_match(uuid, text) to anon, authenticated;
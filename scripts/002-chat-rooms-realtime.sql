@@ -0,0 +1,14 @@
+-- Waiting users are told about their match through a Realtime subscription on
+-- chat_rooms inserts (filtered on user2_id) instead of polling find_match.
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'chat_rooms'
+  ) then
+    alter publication supabase_realtime add table public.chat_rooms;
+  end if;
+end;
+$$;
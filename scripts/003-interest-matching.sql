@@ -0,0 +1,90 @@
+-- Interest-tag matching.
+--
+-- Queue entries carry the tags the student picked. find_match prefers the
+-- partner with the most tags in common; a student only takes a partner with
+-- nothing in common once they have waited p_interest_wait_seconds (or picked
+-- no tags at all), and only if the partner is equally open to it.
+
+alter table public.waiting_queue add column if not exists interests text[] not null default '{}';
+alter table public.chat_rooms add column if not exists shared_interests text[] not null default '{}';
+
+drop function if exists public.find_match(uuid, text);
+
+create or replace function public.find_match(
+  p_user_id uuid,
+  p_username text default null,
+  p_interests text[] default '{}',
+  p_interest_wait_seconds integer default 30
+)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_self waiting_queue%rowtype;
+  v_partner waiting_queue%rowtype;
+  v_room chat_rooms%rowtype;
+  v_self_open boolean;
+  v_shared text[];
+begin
+  -- Only one matcher runs at a time. Row locks alone are not enough: two
+  -- callers that each lock their own queue row and skip the other's would
+  -- both end up waiting instead of being paired.
+  perform pg_advisory_xact_lock(hashtext('find_match'));
+
+  -- Somebody else may already have paired us while we were queued.
+  select * into v_room
+  from chat_rooms
+  where is_active
+    and (user1_id = p_user_id or user2_id = p_user_id)
+  order by created_at desc
+  limit 1;
+
+  if found then
+    delete from waiting_queue where user_id = p_user_id;
+    return v_room;
+  end if;
+
+  -- Keep the original created_at on re-checks so the wait keeps counting.
+  insert into waiting_queue (user_id, username, interests)
+  values (p_user_id, p_username, coalesce(p_interests, '{}'))
+  on conflict (user_id) do update set username = excluded.username, interests = excluded.interests
+  returning * into v_self;
+
+  v_self_open := cardinality(v_self.interests) = 0
+    or v_self.created_at <= now() - make_interval(secs => p_interest_wait_seconds);
+
+  select q.* into v_partner
+  from waiting_queue q
+  where q.user_id <> p_user_id
+    and (
+      q.interests && v_self.interests
+      or (
+        v_self_open
+        and (cardinality(q.interests) = 0 or q.created_at <= now() - make_interval(secs => p_interest_wait_seconds))
+      )
+    )
+  order by
+    cardinality(array(select unnest(q.interests) intersect select unnest(v_self.interests))) desc,
+    q.created_at
+  limit 1
+  for update skip locked;
+
+  if not found then
+    return null;
+  end if;
+
+  v_shared := array(select unnest(v_self.interests) intersect select unnest(v_partner.interests) order by 1);
+
+  delete from waiting_queue where user_id in (p_user_id, v_partner.user_id);
+
+  insert into chat_rooms (user1_id, user2_id, user1_username, user2_username, shared_interests, is_active)
+  values (p_user_id, v_partner.user_id, p_username, v_partner.username, v_shared, true)
+  returning * into v_room;
+
+  return v_room;
+end;
+$$;
+
+grant execute on function public.find_match(uuid, text, text[], integer) to anon, authenticated;
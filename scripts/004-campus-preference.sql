@@ -0,0 +1,124 @@
+-- Same-college vs. cross-college matching.
+--
+-- Queue entries record the student's college (looked up from users, never
+-- taken from the client) and whether they want their own campus, other
+-- campuses or anyone. Both sides' preferences must allow the pairing. Each
+-- side's college is copied onto the room so the header can show it.
+
+alter table public.waiting_queue add column if not exists college_domain text;
+alter table public.waiting_queue add column if not exists campus_preference text not null default 'any'
+  check (campus_preference in ('same', 'other', 'any'));
+alter table public.chat_rooms add column if not exists user1_college_domain text;
+alter table public.chat_rooms add column if not exists user2_college_domain text;
+
+create or replace function public.campus_allows(p_preference text, p_own_domain text, p_other_domain text)
+returns boolean
+language sql
+immutable
+as $$
+  select case p_preference
+    when 'same' then p_own_domain is not null and p_own_domain = p_other_domain
+    when 'other' then p_own_domain is not null and p_other_domain is not null and p_own_domain <> p_other_domain
+    else true
+  end;
+$$;
+
+drop function if exists public.find_match(uuid, text, text[], integer);
+
+create or replace function public.find_match(
+  p_user_id uuid,
+  p_username text default null,
+  p_interests text[] default '{}',
+  p_interest_wait_seconds integer default 30,
+  p_campus_preference text default 'any'
+)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_self waiting_queue%rowtype;
+  v_partner waiting_queue%rowtype;
+  v_room chat_rooms%rowtype;
+  v_self_open boolean;
+  v_shared text[];
+begin
+  -- Only one matcher runs at a time. Row locks alone are not enough: two
+  -- callers that each lock their own queue row and skip the other's would
+  -- both end up waiting instead of being paired.
+  perform pg_advisory_xact_lock(hashtext('find_match'));
+
+  -- Somebody else may already have paired us while we were queued.
+  select * into v_room
+  from chat_rooms
+  where is_active
+    and (user1_id = p_user_id or user2_id = p_user_id)
+  order by created_at desc
+  limit 1;
+
+  if found then
+    delete from waiting_queue where user_id = p_user_id;
+    return v_room;
+  end if;
+
+  -- Keep the original created_at on re-checks so the wait keeps counting.
+  insert into waiting_queue (user_id, username, interests, college_domain, campus_preference)
+  values (
+    p_user_id,
+    p_username,
+    coalesce(p_interests, '{}'),
+    (select college_domain from users where id = p_user_id),
+    coalesce(p_campus_preference, 'any')
+  )
+  on conflict (user_id) do update
+    set username = excluded.username,
+        interests = excluded.interests,
+        college_domain = excluded.college_domain,
+        campus_preference = excluded.campus_preference
+  returning * into v_self;
+
+  v_self_open := cardinality(v_self.interests) = 0
+    or v_self.created_at <= now() - make_interval(secs => p_interest_wait_seconds);
+
+  select q.* into v_partner
+  from waiting_queue q
+  where q.user_id <> p_user_id
+    and campus_allows(v_self.campus_preference, v_self.college_domain, q.college_domain)
+    and campus_allows(q.campus_preference, q.college_domain, v_self.college_domain)
+    and (
+      q.interests && v_self.interests
+      or (
+        v_self_open
+        and (cardinality(q.interests) = 0 or q.created_at <= now() - make_interval(secs => p_interest_wait_seconds))
+      )
+    )
+  order by
+    cardinality(array(select unnest(q.interests) intersect select unnest(v_self.interests))) desc,
+    q.created_at
+  limit 1
+  for update skip locked;
+
+  if not found then
+    return null;
+  end if;
+
+  v_shared := array(select unnest(v_self.interests) intersect select unnest(v_partner.interests) order by 1);
+
+  delete from waiting_queue where user_id in (p_user_id, v_partner.user_id);
+
+  insert into chat_rooms (
+    user1_id, user2_id, user1_username, user2_username,
+    user1_college_domain, user2_college_domain, shared_interests, is_active
+  )
+  values (
+    p_user_id, v_partner.user_id, p_username, v_partner.username,
+    v_self.college_domain, v_partner.college_domain, v_shared, true
+  )
+  returning * into v_room;
+
+  return v_room;
+end;
+$$;
+
+grant execute on function public.find_match(uuid, text, text[], integer, text) to anon, authenticated;
@@ -0,0 +1,68 @@
+-- Queue size, position and estimated wait for the searching screen.
+--
+-- The estimate is the average gap between the last 20 rooms created in the
+-- past hour, times the caller's position: each new arrival takes the oldest
+-- compatible waiter, so roughly one match has to happen per place ahead of us.
+-- It is null when there haven't been enough recent matches to tell.
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'waiting_queue'
+  ) then
+    alter publication supabase_realtime add table public.waiting_queue;
+  end if;
+end;
+$$;
+
+create or replace function public.queue_status(p_user_id uuid)
+returns table (queue_size integer, queue_position integer, estimated_wait_seconds integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_created_at timestamptz;
+  v_recent_count integer;
+  v_first timestamptz;
+  v_last timestamptz;
+begin
+  select count(*) into queue_size
+  from waiting_queue
+  where last_seen_at > now() - interval '30 seconds';
+
+  select created_at into v_created_at from waiting_queue where user_id = p_user_id;
+
+  if v_created_at is null then
+    queue_position := null;
+  else
+    select count(*) + 1 into queue_position
+    from waiting_queue
+    where last_seen_at > now() - interval '30 seconds'
+      and user_id <> p_user_id
+      and created_at < v_created_at;
+  end if;
+
+  select count(*), min(created_at), max(created_at) into v_recent_count, v_first, v_last
+  from (
+    select created_at
+    from chat_rooms
+    where created_at > now() - interval '1 hour'
+    order by created_at desc
+    limit 20
+  ) recent;
+
+  if v_recent_count < 2 or queue_position is null then
+    estimated_wait_seconds := null;
+  else
+    estimated_wait_seconds := ceil(extract(epoch from v_last - v_first) / (v_recent_count - 1) * queue_position);
+  end if;
+
+  return next;
+end;
+$$;
+
+grant execute on function public.queue_status(uuid) to anon, authenticated;
@@ -0,0 +1,139 @@
+-- Study-buddy matching by course code.
+--
+-- A student in study mode queues with one or more normalized course codes
+-- (e.g. "CS 101") and is only paired with someone from the same college
+-- queued for at least one of the same courses. Study-mode and regular
+-- searchers never match each other. The shared course is kept on the room.
+
+alter table public.waiting_queue add column if not exists course_codes text[] not null default '{}';
+alter table public.chat_rooms add column if not exists course_code text;
+
+drop function if exists public.find_match(uuid, text, text[], integer, text, integer);
+
+create or replace function public.find_match(
+  p_user_id uuid,
+  p_username text default null,
+  p_interests text[] default '{}',
+  p_interest_wait_seconds integer default 30,
+  p_campus_preference text default 'any',
+  p_rematch_cooldown_seconds integer default 300,
+  p_course_codes text[] default '{}'
+)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_self waiting_queue%rowtype;
+  v_partner waiting_queue%rowtype;
+  v_room chat_rooms%rowtype;
+  v_self_open boolean;
+  v_shared text[];
+  v_course_code text;
+begin
+  -- Only one matcher runs at a time. Row locks alone are not enough: two
+  -- callers that each lock their own queue row and skip the other's would
+  -- both end up waiting instead of being paired.
+  perform pg_advisory_xact_lock(hashtext('find_match'));
+
+  -- Somebody else may already have paired us while we were queued.
+  select * into v_room
+  from chat_rooms
+  where is_active
+    and (user1_id = p_user_id or user2_id = p_user_id)
+  order by created_at desc
+  limit 1;
+
+  if found then
+    delete from waiting_queue where user_id = p_user_id;
+    return v_room;
+  end if;
+
+  -- Keep the original created_at on re-checks so the wait keeps counting.
+  insert into waiting_queue (user_id, username, interests, college_domain, campus_preference, course_codes, last_seen_at)
+  values (
+    p_user_id,
+    p_username,
+    coalesce(p_interests, '{}'),
+    (select college_domain from users where id = p_user_id),
+    coalesce(p_campus_preference, 'any'),
+    coalesce(p_course_codes, '{}'),
+    now()
+  )
+  on conflict (user_id) do update
+    set username = excluded.username,
+        interests = excluded.interests,
+        college_domain = excluded.college_domain,
+        campus_preference = excluded.campus_preference,
+        course_codes = excluded.course_codes,
+        last_seen_at = excluded.last_seen_at
+  returning * into v_self;
+
+  v_self_open := cardinality(v_self.interests) = 0
+    or v_self.created_at <= now() - make_interval(secs => p_interest_wait_seconds);
+
+  select q.* into v_partner
+  from waiting_queue q
+  where q.user_id <> p_user_id
+    and q.last_seen_at > now() - interval '30 seconds'
+    and not exists (
+      select 1
+      from recent_partners rp
+      where rp.user_id = p_user_id
+        and rp.partner_id = q.user_id
+        and rp.matched_at > now() - make_interval(secs => p_rematch_cooldown_seconds)
+    )
+    and case
+      when cardinality(v_self.course_codes) > 0 then
+        q.course_codes && v_self.course_codes
+        and v_self.college_domain is not null
+        and q.college_domain = v_self.college_domain
+      else
+        cardinality(q.course_codes) = 0
+        and campus_allows(v_self.campus_preference, v_self.college_domain, q.college_domain)
+        and campus_allows(q.campus_preference, q.college_domain, v_self.college_domain)
+        and (
+          q.interests && v_self.interests
+          or (
+            v_self_open
+            and (cardinality(q.interests) = 0 or q.created_at <= now() - make_interval(secs => p_interest_wait_seconds))
+          )
+        )
+    end
+  order by
+    cardinality(array(select unnest(q.interests) intersect select unnest(v_self.interests))) desc,
+    q.created_at
+  limit 1
+  for update skip locked;
+
+  if not found then
+    return null;
+  end if;
+
+  v_shared := array(select unnest(v_self.interests) intersect select unnest(v_partner.interests) order by 1);
+  v_course_code := (
+    select min(c) from (select unnest(v_self.course_codes) intersect select unnest(v_partner.course_codes)) shared (c)
+  );
+
+  delete from waiting_queue where user_id in (p_user_id, v_partner.user_id);
+
+  insert into chat_rooms (
+    user1_id, user2_id, user1_username, user2_username,
+    user1_college_domain, user2_college_domain, shared_interests, course_code, is_active
+  )
+  values (
+    p_user_id, v_partner.user_id, p_username, v_partner.username,
+    v_self.college_domain, v_partner.college_domain, v_shared, v_course_code, true
+  )
+  returning * into v_room;
+
+  insert into recent_partners (user_id, partner_id)
+  values (p_user_id, v_partner.user_id), (v_partner.user_id, p_user_id)
+  on conflict (user_id, partner_id) do update set matched_at = now();
+
+  return v_room;
+end;
+$$;
+
+grant execute on function public.find_match(uuid, text, text[], integer, text, integer, text[]) to anon, authenticated;
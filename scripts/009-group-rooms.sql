@@ -0,0 +1,197 @@
+-- Group video rooms.
+--
+-- Room membership now lives in chat_room_participants instead of only
+-- user1_id/user2_id. 1:1 rooms created by find_match still fill in
+-- user1_id/user2_id (the Realtime match notification filters on user2_id) and
+-- get their participant rows from a trigger. Group rooms leave both columns
+-- empty and are joined through join_group_room, which enforces
+-- max_participants (at most six, the size of a full mesh we support).
+
+create table if not exists public.chat_room_participants (
+  room_id uuid not null references public.chat_rooms (id) on delete cascade,
+  user_id uuid not null,
+  username text,
+  joined_at timestamptz not null default now(),
+  left_at timestamptz,
+  primary key (room_id, user_id)
+);
+
+create index if not exists chat_room_participants_user_id_idx on public.chat_room_participants (user_id) where left_at is null;
+
+alter table public.chat_rooms add column if not exists is_group boolean not null default false;
+alter table public.chat_rooms add column if not exists max_participants integer not null default 2
+  check (max_participants between 2 and 6);
+alter table public.chat_rooms alter column user1_id drop not null;
+alter table public.chat_rooms alter column user2_id drop not null;
+
+insert into public.chat_room_participants (room_id, user_id, username, joined_at, left_at)
+select r.id, p.user_id, p.username, r.created_at, case when r.is_active then null else coalesce(r.ended_at, now()) end
+from public.chat_rooms r
+cross join lateral (values (r.user1_id, r.user1_username), (r.user2_id, r.user2_username)) p (user_id, username)
+where p.user_id is not null
+on conflict (room_id, user_id) do nothing;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'chat_room_participants'
+  ) then
+    alter publication supabase_realtime add table public.chat_room_participants;
+  end if;
+end;
+$$;
+
+create or replace function public.add_pair_participants()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into chat_room_participants (room_id, user_id, username)
+  select new.id, p.user_id, p.username
+  from (values (new.user1_id, new.user1_username), (new.user2_id, new.user2_username)) p (user_id, username)
+  where p.user_id is not null
+  on conflict (room_id, user_id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists chat_rooms_add_pair_participants on public.chat_rooms;
+create trigger chat_rooms_add_pair_participants
+  after insert on public.chat_rooms
+  for each row execute function public.add_pair_participants();
+
+-- Closing a room, however it happens, checks everyone out of it.
+create or replace function public.close_room_participants()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update chat_room_participants set left_at = now() where room_id = new.id and left_at is null;
+  return new;
+end;
+$$;
+
+drop trigger if exists chat_rooms_close_participants on public.chat_rooms;
+create trigger chat_rooms_close_participants
+  after update of is_active on public.chat_rooms
+  for each row when (old.is_active and not new.is_active)
+  execute function public.close_room_participants();
+
+create or replace function public.create_group_room(
+  p_user_id uuid,
+  p_username text default null,
+  p_max_participants integer default 6
+)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_room chat_rooms%rowtype;
+begin
+  insert into chat_rooms (is_group, max_participants, is_active)
+  values (true, least(greatest(coalesce(p_max_participants, 6), 2), 6), true)
+  returning * into v_room;
+
+  insert into chat_room_participants (room_id, user_id, username)
+  values (v_room.id, p_user_id, p_username);
+
+  return v_room;
+end;
+$$;
+
+create or replace function public.join_group_room(p_room_id uuid, p_user_id uuid, p_username text default null)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_room chat_rooms%rowtype;
+begin
+  -- Locking the room row serializes joins so two people can't take the last seat.
+  select * into v_room
+  from chat_rooms
+  where id = p_room_id and is_group and is_active
+  for update;
+
+  if not found then
+    raise exception 'This group room does not exist or has ended' using errcode = 'P0002';
+  end if;
+
+  if not exists (
+    select 1 from chat_room_participants
+    where room_id = p_room_id and user_id = p_user_id and left_at is null
+  ) and (
+    select count(*) from chat_room_participants where room_id = p_room_id and left_at is null
+  ) >= v_room.max_participants then
+    raise exception 'This group room is full' using errcode = 'P0001';
+  end if;
+
+  insert into chat_room_participants (room_id, user_id, username)
+  values (p_room_id, p_user_id, p_username)
+  on conflict (room_id, user_id) do update
+    set username = excluded.username, joined_at = now(), left_at = null;
+
+  return v_room;
+end;
+$$;
+
+-- The room closes when its last participant leaves.
+create or replace function public.leave_room(p_room_id uuid, p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update chat_room_participants
+  set left_at = now()
+  where room_id = p_room_id and user_id = p_user_id and left_at is null;
+
+  update chat_rooms
+  set is_active = false, ended_at = now()
+  where id = p_room_id
+    and is_active
+    and not exists (select 1 from chat_room_participants where room_id = p_room_id and left_at is null);
+end;
+$$;
+
+grant execute on function public.create_group_room(uuid, text, integer) to anon, authenticated;
+grant execute on function public.join_group_room(uuid, uuid, text) to anon, authenticated;
+grant execute on function public.leave_room(uuid, uuid) to anon, authenticated;
+
+create or replace function public.cleanup_stale_matchmaking()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from waiting_queue where last_seen_at < now() - interval '30 seconds';
+  delete from recent_partners where matched_at < now() - interval '1 day';
+
+  update chat_rooms r
+  set is_active = false, ended_at = now()
+  where r.is_active
+    and (
+      not exists (
+        select 1
+        from chat_room_participants p
+        join users u on u.id = p.user_id
+        where p.room_id = r.id and p.left_at is null and u.is_online
+      )
+      or greatest(
+        r.created_at,
+        (select max(m.created_at) from messages m where m.room_id = r.id)
+      ) < now() - interval '2 hours'
+    );
+end;
+$$;
@@ -0,0 +1,378 @@
+-- Timed speed-networking events.
+--
+-- An organizer schedules an event with a start time and round length.
+-- Participants wait in the event lobby, which is their waiting_queue row
+-- tagged with event_id (kept fresh by the usual queue heartbeat), so
+-- find_match and queue_status now ignore lobby rows. Each round is a set of
+-- 1:1 chat_rooms tagged with event_id/event_round; no pair meets twice in the
+-- same event. Lobby clients call advance_event_round when the start time or the
+-- current round's end passes; the row lock makes sure only the first call
+-- does anything. The event finishes once no new pairs can be made.
+
+create table if not exists public.networking_events (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  organizer_id uuid not null,
+  starts_at timestamptz not null,
+  round_seconds integer not null check (round_seconds between 60 and 3600),
+  current_round integer not null default 0,
+  round_ends_at timestamptz,
+  status text not null default 'scheduled' check (status in ('scheduled', 'running', 'finished')),
+  created_at timestamptz not null default now()
+);
+
+alter table public.waiting_queue add column if not exists event_id uuid references public.networking_events (id) on delete cascade;
+alter table public.chat_rooms add column if not exists event_id uuid references public.networking_events (id) on delete set null;
+alter table public.chat_rooms add column if not exists event_round integer;
+
+create index if not exists waiting_queue_event_id_idx on public.waiting_queue (event_id) where event_id is not null;
+create index if not exists chat_rooms_event_id_idx on public.chat_rooms (event_id, event_round) where event_id is not null;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'networking_events'
+  ) then
+    alter publication supabase_realtime add table public.networking_events;
+  end if;
+end;
+$$;
+
+create or replace function public.find_match(
+  p_user_id uuid,
+  p_username text default null,
+  p_interests text[] default '{}',
+  p_interest_wait_seconds integer default 30,
+  p_campus_preference text default 'any',
+  p_rematch_cooldown_seconds integer default 300,
+  p_course_codes text[] default '{}'
+)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_self waiting_queue%rowtype;
+  v_partner waiting_queue%rowtype;
+  v_room chat_rooms%rowtype;
+  v_self_open boolean;
+  v_shared text[];
+  v_course_code text;
+begin
+  -- Only one matcher runs at a time. Row locks alone are not enough: two
+  -- callers that each lock their own queue row and skip the other's would
+  -- both end up waiting instead of being paired.
+  perform pg_advisory_xact_lock(hashtext('find_match'));
+
+  -- Somebody else may already have paired us while we were queued.
+  select * into v_room
+  from chat_rooms
+  where is_active
+    and (user1_id = p_user_id or user2_id = p_user_id)
+  order by created_at desc
+  limit 1;
+
+  if found then
+    delete from waiting_queue where user_id = p_user_id;
+    return v_room;
+  end if;
+
+  -- Keep the original created_at on re-checks so the wait keeps counting.
+  insert into waiting_queue (user_id, username, interests, college_domain, campus_preference, course_codes, last_seen_at)
+  values (
+    p_user_id,
+    p_username,
+    coalesce(p_interests, '{}'),
+    (select college_domain from users where id = p_user_id),
+    coalesce(p_campus_preference, 'any'),
+    coalesce(p_course_codes, '{}'),
+    now()
+  )
+  on conflict (user_id) do update
+    set username = excluded.username,
+        interests = excluded.interests,
+        college_domain = excluded.college_domain,
+        campus_preference = excluded.campus_preference,
+        course_codes = excluded.course_codes,
+        event_id = null,
+        last_seen_at = excluded.last_seen_at
+  returning * into v_self;
+
+  v_self_open := cardinality(v_self.interests) = 0
+    or v_self.created_at <= now() - make_interval(secs => p_interest_wait_seconds);
+
+  select q.* into v_partner
+  from waiting_queue q
+  where q.user_id <> p_user_id
+    and q.event_id is null
+    and q.last_seen_at > now() - interval '30 seconds'
+    and not exists (
+      select 1
+      from recent_partners rp
+      where rp.user_id = p_user_id
+        and rp.partner_id = q.user_id
+        and rp.matched_at > now() - make_interval(secs => p_rematch_cooldown_seconds)
+    )
+    and case
+      when cardinality(v_self.course_codes) > 0 then
+        q.course_codes && v_self.course_codes
+        and v_self.college_domain is not null
+        and q.college_domain = v_self.college_domain
+      else
+        cardinality(q.course_codes) = 0
+        and campus_allows(v_self.campus_preference, v_self.college_domain, q.college_domain)
+        and campus_allows(q.campus_preference, q.college_domain, v_self.college_domain)
+        and (
+          q.interests && v_self.interests
+          or (
+            v_self_open
+            and (cardinality(q.interests) = 0 or q.created_at <= now() - make_interval(secs => p_interest_wait_seconds))
+          )
+        )
+    end
+  order by
+    cardinality(array(select unnest(q.interests) intersect select unnest(v_self.interests))) desc,
+    q.created_at
+  limit 1
+  for update skip locked;
+
+  if not found then
+    return null;
+  end if;
+
+  v_shared := array(select unnest(v_self.interests) intersect select unnest(v_partner.interests) order by 1);
+  v_course_code := (
+    select min(c) from (select unnest(v_self.course_codes) intersect select unnest(v_partner.course_codes)) shared (c)
+  );
+
+  delete from waiting_queue where user_id in (p_user_id, v_partner.user_id);
+
+  insert into chat_rooms (
+    user1_id, user2_id, user1_username, user2_username,
+    user1_college_domain, user2_college_domain, shared_interests, course_code, is_active
+  )
+  values (
+    p_user_id, v_partner.user_id, p_username, v_partner.username,
+    v_self.college_domain, v_partner.college_domain, v_shared, v_course_code, true
+  )
+  returning * into v_room;
+
+  insert into recent_partners (user_id, partner_id)
+  values (p_user_id, v_partner.user_id), (v_partner.user_id, p_user_id)
+  on conflict (user_id, partner_id) do update set matched_at = now();
+
+  return v_room;
+end;
+$$;
+
+create or replace function public.queue_status(p_user_id uuid)
+returns table (queue_size integer, queue_position integer, estimated_wait_seconds integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_created_at timestamptz;
+  v_recent_count integer;
+  v_first timestamptz;
+  v_last timestamptz;
+begin
+  select count(*) into queue_size
+  from waiting_queue
+  where last_seen_at > now() - interval '30 seconds'
+    and event_id is null;
+
+  select created_at into v_created_at from waiting_queue where user_id = p_user_id and event_id is null;
+
+  if v_created_at is null then
+    queue_position := null;
+  else
+    select count(*) + 1 into queue_position
+    from waiting_queue
+    where last_seen_at > now() - interval '30 seconds'
+      and event_id is null
+      and user_id <> p_user_id
+      and created_at < v_created_at;
+  end if;
+
+  select count(*), min(created_at), max(created_at) into v_recent_count, v_first, v_last
+  from (
+    select created_at
+    from chat_rooms
+    where created_at > now() - interval '1 hour'
+      and event_id is null
+    order by created_at desc
+    limit 20
+  ) recent;
+
+  if v_recent_count < 2 or queue_position is null then
+    estimated_wait_seconds := null;
+  else
+    estimated_wait_seconds := ceil(extract(epoch from v_last - v_first) / (v_recent_count - 1) * queue_position);
+  end if;
+
+  return next;
+end;
+$$;
+
+create or replace function public.create_networking_event(
+  p_organizer_id uuid,
+  p_title text,
+  p_starts_at timestamptz,
+  p_round_seconds integer
+)
+returns public.networking_events
+language sql
+security definer
+set search_path = public
+as $$
+  insert into networking_events (organizer_id, title, starts_at, round_seconds)
+  values (p_organizer_id, p_title, p_starts_at, p_round_seconds)
+  returning *;
+$$;
+
+create or replace function public.join_networking_event(p_event_id uuid, p_user_id uuid, p_username text default null)
+returns public.networking_events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event networking_events%rowtype;
+begin
+  select * into v_event from networking_events where id = p_event_id;
+
+  if not found or v_event.status = 'finished' then
+    raise exception 'This event does not exist or has finished' using errcode = 'P0002';
+  end if;
+
+  insert into waiting_queue (user_id, username, event_id, last_seen_at)
+  values (p_user_id, p_username, p_event_id, now())
+  on conflict (user_id) do update
+    set username = excluded.username, event_id = excluded.event_id, last_seen_at = excluded.last_seen_at;
+
+  return v_event;
+end;
+$$;
+
+create or replace function public.leave_networking_event(p_event_id uuid, p_user_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from waiting_queue where user_id = p_user_id and event_id = p_event_id;
+$$;
+
+create or replace function public.advance_event_round(p_event_id uuid)
+returns public.networking_events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event networking_events%rowtype;
+  v_a record;
+  v_b record;
+  v_paired uuid[] := '{}';
+begin
+  select * into v_event from networking_events where id = p_event_id for update;
+
+  if not found then
+    raise exception 'This event does not exist' using errcode = 'P0002';
+  end if;
+
+  if v_event.status = 'finished'
+    or (v_event.status = 'scheduled' and now() < v_event.starts_at)
+    or (v_event.status = 'running' and now() < v_event.round_ends_at) then
+    return v_event;
+  end if;
+
+  update chat_rooms set is_active = false, ended_at = now() where event_id = p_event_id and is_active;
+
+  for v_a in
+    select user_id, username
+    from waiting_queue
+    where event_id = p_event_id and last_seen_at > now() - interval '30 seconds'
+    order by random()
+  loop
+    continue when v_a.user_id = any(v_paired);
+
+    select q.user_id, q.username into v_b
+    from waiting_queue q
+    where q.event_id = p_event_id
+      and q.last_seen_at > now() - interval '30 seconds'
+      and q.user_id <> v_a.user_id
+      and not (q.user_id = any(v_paired))
+      and not exists (
+        select 1
+        from chat_rooms r
+        where r.event_id = p_event_id
+          and (
+            (r.user1_id = v_a.user_id and r.user2_id = q.user_id)
+            or (r.user1_id = q.user_id and r.user2_id = v_a.user_id)
+          )
+      )
+    order by random()
+    limit 1;
+
+    continue when not found;
+
+    v_paired := v_paired || v_a.user_id || v_b.user_id;
+
+    insert into chat_rooms (user1_id, user2_id, user1_username, user2_username, event_id, event_round, is_active)
+    values (v_a.user_id, v_b.user_id, v_a.username, v_b.username, p_event_id, v_event.current_round + 1, true);
+  end loop;
+
+  if cardinality(v_paired) = 0 then
+    update networking_events
+    set status = 'finished', round_ends_at = null
+    where id = p_event_id
+    returning * into v_event;
+  else
+    update networking_events
+    set status = 'running',
+        current_round = current_round + 1,
+        round_ends_at = now() + make_interval(secs => round_seconds)
+    where id = p_event_id
+    returning * into v_event;
+  end if;
+
+  return v_event;
+end;
+$$;
+
+create or replace function public.end_networking_event(p_event_id uuid, p_user_id uuid)
+returns public.networking_events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event networking_events%rowtype;
+begin
+  update networking_events
+  set status = 'finished', round_ends_at = null
+  where id = p_event_id and organizer_id = p_user_id
+  returning * into v_event;
+
+  if not found then
+    raise exception 'Only the organizer can end this event' using errcode = '42501';
+  end if;
+
+  update chat_rooms set is_active = false, ended_at = now() where event_id = p_event_id and is_active;
+  delete from waiting_queue where event_id = p_event_id;
+
+  return v_event;
+end;
+$$;
+
+grant execute on function public.create_networking_event(uuid, text, timestamptz, integer) to anon, authenticated;
+grant execute on function public.join_networking_event(uuid, uuid, text) to anon, authenticated;
+grant execute on function public.leave_networking_event(uuid, uuid) to anon, authenticated;
+grant execute on function public.advance_event_round(uuid) to anon, authenticated;
+grant execute on function public.end_networking_event(uuid, uuid) to anon, authenticated;
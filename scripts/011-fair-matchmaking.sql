@@ -0,0 +1,143 @@
+-- Fair, wait-time-weighted matchmaking.
+--
+-- Choosing a partner moved out of find_match into lib/match-strategy.ts (run
+-- by the /api/match route), which ranks longest waiters first and can be
+-- exercised with simulated queues. The database keeps the parts that must be
+-- atomic:
+--   enqueue_for_match  adds or refreshes the caller's queue entry, or returns
+--                      the room they have already been matched into
+--   claim_match        pairs the caller with the chosen partner if both are
+--                      still waiting, and returns the new room
+-- Both take the same advisory lock find_match used, so a queue entry can't be
+-- claimed twice.
+
+drop function if exists public.find_match(uuid, text, text[], integer, text, integer, text[]);
+drop function if exists public.campus_allows(text, text, text);
+
+create index if not exists waiting_queue_created_at_idx on public.waiting_queue (created_at) where event_id is null;
+
+create or replace function public.enqueue_for_match(
+  p_user_id uuid,
+  p_username text default null,
+  p_interests text[] default '{}',
+  p_campus_preference text default 'any',
+  p_course_codes text[] default '{}'
+)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_room chat_rooms%rowtype;
+begin
+  perform pg_advisory_xact_lock(hashtext('find_match'));
+
+  -- Somebody else may already have paired us while we were queued.
+  select * into v_room
+  from chat_rooms
+  where is_active
+    and event_id is null
+    and (user1_id = p_user_id or user2_id = p_user_id)
+  order by created_at desc
+  limit 1;
+
+  if found then
+    delete from waiting_queue where user_id = p_user_id;
+    return v_room;
+  end if;
+
+  -- Keep the original created_at on re-checks so the wait keeps counting.
+  insert into waiting_queue (user_id, username, interests, college_domain, campus_preference, course_codes, last_seen_at)
+  values (
+    p_user_id,
+    p_username,
+    coalesce(p_interests, '{}'),
+    (select college_domain from users where id = p_user_id),
+    coalesce(p_campus_preference, 'any'),
+    coalesce(p_course_codes, '{}'),
+    now()
+  )
+  on conflict (user_id) do update
+    set username = excluded.username,
+        interests = excluded.interests,
+        college_domain = excluded.college_domain,
+        campus_preference = excluded.campus_preference,
+        course_codes = excluded.course_codes,
+        event_id = null,
+        last_seen_at = excluded.last_seen_at;
+
+  return null;
+end;
+$$;
+
+create or replace function public.claim_match(
+  p_user_id uuid,
+  p_partner_id uuid,
+  p_shared_interests text[] default '{}',
+  p_course_code text default null
+)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_self waiting_queue%rowtype;
+  v_partner waiting_queue%rowtype;
+  v_room chat_rooms%rowtype;
+begin
+  perform pg_advisory_xact_lock(hashtext('find_match'));
+
+  -- Another seeker may have claimed us while we were ranking candidates.
+  select * into v_room
+  from chat_rooms
+  where is_active
+    and event_id is null
+    and (user1_id = p_user_id or user2_id = p_user_id)
+  order by created_at desc
+  limit 1;
+
+  if found then
+    return v_room;
+  end if;
+
+  select * into v_self
+  from waiting_queue
+  where user_id = p_user_id and event_id is null
+  for update;
+
+  select * into v_partner
+  from waiting_queue
+  where user_id = p_partner_id
+    and user_id <> p_user_id
+    and event_id is null
+    and last_seen_at > now() - interval '30 seconds'
+  for update skip locked;
+
+  if v_self.user_id is null or v_partner.user_id is null then
+    return null;
+  end if;
+
+  delete from waiting_queue where user_id in (p_user_id, p_partner_id);
+
+  insert into chat_rooms (
+    user1_id, user2_id, user1_username, user2_username,
+    user1_college_domain, user2_college_domain, shared_interests, course_code, is_active
+  )
+  values (
+    p_user_id, p_partner_id, v_self.username, v_partner.username,
+    v_self.college_domain, v_partner.college_domain, coalesce(p_shared_interests, '{}'), p_course_code, true
+  )
+  returning * into v_room;
+
+  insert into recent_partners (user_id, partner_id)
+  values (p_user_id, p_partner_id), (p_partner_id, p_user_id)
+  on conflict (user_id, partner_id) do update set matched_at = now();
+
+  return v_room;
+end;
+$$;
+
+grant execute on function public.enqueue_for_match(uuid, text, text[], text, text[]) to anon, authenticated;
+grant execute on function public.claim_match(uuid, uuid, text[], text) to anon, authenticated;
@@ -0,0 +1,279 @@
+-- Saved contacts.
+--
+-- Either side of a 1:1 room can ask to connect; the request is stored per
+-- room in connection_requests. Once both have asked, request_connection
+-- creates a friendship row (stored once per pair, user_a_id < user_b_id).
+-- Friends can open a direct room with start_direct_room, which skips
+-- waiting_queue and recent_partners entirely. Direct rooms are marked
+-- is_direct so enqueue_for_match and claim_match don't mistake a pending
+-- invite for a fresh match.
+
+create table if not exists public.connection_requests (
+  room_id uuid not null references public.chat_rooms (id) on delete cascade,
+  requester_id uuid not null,
+  addressee_id uuid not null,
+  created_at timestamptz not null default now(),
+  primary key (room_id, requester_id)
+);
+
+create table if not exists public.friendships (
+  user_a_id uuid not null,
+  user_b_id uuid not null,
+  user_a_username text,
+  user_b_username text,
+  created_at timestamptz not null default now(),
+  primary key (user_a_id, user_b_id),
+  check (user_a_id < user_b_id)
+);
+
+create index if not exists friendships_user_b_id_idx on public.friendships (user_b_id);
+
+alter table public.chat_rooms add column if not exists is_direct boolean not null default false;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'connection_requests'
+  ) then
+    alter publication supabase_realtime add table public.connection_requests;
+  end if;
+
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'friendships'
+  ) then
+    alter publication supabase_realtime add table public.friendships;
+  end if;
+end;
+$$;
+
+-- Returns true once both people in the room have asked to connect.
+create or replace function public.request_connection(p_room_id uuid, p_user_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_room chat_rooms%rowtype;
+  v_partner_id uuid;
+begin
+  select * into v_room from chat_rooms where id = p_room_id and not is_group;
+
+  if not found or p_user_id not in (v_room.user1_id, v_room.user2_id) then
+    raise exception 'You can only connect with someone you were matched with' using errcode = 'P0002';
+  end if;
+
+  v_partner_id := case when v_room.user1_id = p_user_id then v_room.user2_id else v_room.user1_id end;
+
+  insert into connection_requests (room_id, requester_id, addressee_id)
+  values (p_room_id, p_user_id, v_partner_id)
+  on conflict (room_id, requester_id) do nothing;
+
+  if not exists (select 1 from connection_requests where room_id = p_room_id and requester_id = v_partner_id) then
+    return false;
+  end if;
+
+  insert into friendships (user_a_id, user_b_id, user_a_username, user_b_username)
+  select
+    least(v_room.user1_id, v_room.user2_id),
+    greatest(v_room.user1_id, v_room.user2_id),
+    case when v_room.user1_id < v_room.user2_id then v_room.user1_username else v_room.user2_username end,
+    case when v_room.user1_id < v_room.user2_id then v_room.user2_username else v_room.user1_username end
+  on conflict (user_a_id, user_b_id) do nothing;
+
+  return true;
+end;
+$$;
+
+create or replace function public.remove_contact(p_user_id uuid, p_friend_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from friendships
+  where user_a_id = least(p_user_id, p_friend_id) and user_b_id = greatest(p_user_id, p_friend_id);
+$$;
+
+-- The friend is always user2_id, which is what their contacts list listens on.
+create or replace function public.start_direct_room(p_user_id uuid, p_friend_id uuid)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_friendship friendships%rowtype;
+  v_room chat_rooms%rowtype;
+begin
+  select * into v_friendship
+  from friendships
+  where user_a_id = least(p_user_id, p_friend_id) and user_b_id = greatest(p_user_id, p_friend_id);
+
+  if not found then
+    raise exception 'You are not connected with this student' using errcode = 'P0002';
+  end if;
+
+  -- Calling back while an earlier invite is still open reuses that room.
+  select * into v_room
+  from chat_rooms
+  where is_active
+    and is_direct
+    and (
+      (user1_id = p_user_id and user2_id = p_friend_id)
+      or (user1_id = p_friend_id and user2_id = p_user_id)
+    )
+  order by created_at desc
+  limit 1;
+
+  if found then
+    return v_room;
+  end if;
+
+  insert into chat_rooms (user1_id, user2_id, user1_username, user2_username, is_direct, is_active)
+  values (
+    p_user_id,
+    p_friend_id,
+    case when v_friendship.user_a_id = p_user_id then v_friendship.user_a_username else v_friendship.user_b_username end,
+    case when v_friendship.user_a_id = p_user_id then v_friendship.user_b_username else v_friendship.user_a_username end,
+    true,
+    true
+  )
+  returning * into v_room;
+
+  return v_room;
+end;
+$$;
+
+create or replace function public.enqueue_for_match(
+  p_user_id uuid,
+  p_username text default null,
+  p_interests text[] default '{}',
+  p_campus_preference text default 'any',
+  p_course_codes text[] default '{}'
+)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_room chat_rooms%rowtype;
+begin
+  perform pg_advisory_xact_lock(hashtext('find_match'));
+
+  -- Somebody else may already have paired us while we were queued.
+  select * into v_room
+  from chat_rooms
+  where is_active
+    and event_id is null
+    and not is_direct
+    and (user1_id = p_user_id or user2_id = p_user_id)
+  order by created_at desc
+  limit 1;
+
+  if found then
+    delete from waiting_queue where user_id = p_user_id;
+    return v_room;
+  end if;
+
+  -- Keep the original created_at on re-checks so the wait keeps counting.
+  insert into waiting_queue (user_id, username, interests, college_domain, campus_preference, course_codes, last_seen_at)
+  values (
+    p_user_id,
+    p_username,
+    coalesce(p_interests, '{}'),
+    (select college_domain from users where id = p_user_id),
+    coalesce(p_campus_preference, 'any'),
+    coalesce(p_course_codes, '{}'),
+    now()
+  )
+  on conflict (user_id) do update
+    set username = excluded.username,
+        interests = excluded.interests,
+        college_domain = excluded.college_domain,
+        campus_preference = excluded.campus_preference,
+        course_codes = excluded.course_codes,
+        event_id = null,
+        last_seen_at = excluded.last_seen_at;
+
+  return null;
+end;
+$$;
+
+create or replace function public.claim_match(
+  p_user_id uuid,
+  p_partner_id uuid,
+  p_shared_interests text[] default '{}',
+  p_course_code text default null
+)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_self waiting_queue%rowtype;
+  v_partner waiting_queue%rowtype;
+  v_room chat_rooms%rowtype;
+begin
+  perform pg_advisory_xact_lock(hashtext('find_match'));
+
+  -- Another seeker may have claimed us while we were ranking candidates.
+  select * into v_room
+  from chat_rooms
+  where is_active
+    and event_id is null
+    and not is_direct
+    and (user1_id = p_user_id or user2_id = p_user_id)
+  order by created_at desc
+  limit 1;
+
+  if found then
+    return v_room;
+  end if;
+
+  select * into v_self
+  from waiting_queue
+  where user_id = p_user_id and event_id is null
+  for update;
+
+  select * into v_partner
+  from waiting_queue
+  where user_id = p_partner_id
+    and user_id <> p_user_id
+    and event_id is null
+    and last_seen_at > now() - interval '30 seconds'
+  for update skip locked;
+
+  if v_self.user_id is null or v_partner.user_id is null then
+    return null;
+  end if;
+
+  delete from waiting_queue where user_id in (p_user_id, p_partner_id);
+
+  insert into chat_rooms (
+    user1_id, user2_id, user1_username, user2_username,
+    user1_college_domain, user2_college_domain, shared_interests, course_code, is_active
+  )
+  values (
+    p_user_id, p_partner_id, v_self.username, v_partner.username,
+    v_self.college_domain, v_partner.college_domain, coalesce(p_shared_interests, '{}'), p_course_code, true
+  )
+  returning * into v_room;
+
+  insert into recent_partners (user_id, partner_id)
+  values (p_user_id, p_partner_id), (p_partner_id, p_user_id)
+  on conflict (user_id, partner_id) do update set matched_at = now();
+
+  return v_room;
+end;
+$$;
+
+grant execute on function public.request_connection(uuid, uuid) to anon, authenticated;
+grant execute on function public.remove_contact(uuid, uuid) to anon, authenticated;
+grant execute on function public.start_direct_room(uuid, uuid) to anon, authenticated;
@@ -0,0 +1,251 @@
+-- Block list.
+--
+-- A block works in both directions: is_blocked(a, b) is true if either user
+-- blocked the other. /api/match leaves blocked users out of the ranking, and
+-- claim_match and advance_event_round refuse to pair them in case a stale
+-- ranking slips through. Blocking also drops any friendship and pending
+-- connection requests between the two, and a trigger rejects messages sent
+-- into a room where the sender and any other participant are blocked.
+
+create table if not exists public.blocks (
+  blocker_id uuid not null,
+  blocked_id uuid not null,
+  blocked_username text,
+  created_at timestamptz not null default now(),
+  primary key (blocker_id, blocked_id),
+  check (blocker_id <> blocked_id)
+);
+
+create index if not exists blocks_blocked_id_idx on public.blocks (blocked_id);
+
+create or replace function public.is_blocked(p_user_id uuid, p_other_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from blocks
+    where (blocker_id = p_user_id and blocked_id = p_other_id)
+      or (blocker_id = p_other_id and blocked_id = p_user_id)
+  );
+$$;
+
+create or replace function public.block_user(p_user_id uuid, p_blocked_id uuid, p_blocked_username text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into blocks (blocker_id, blocked_id, blocked_username)
+  values (p_user_id, p_blocked_id, p_blocked_username)
+  on conflict (blocker_id, blocked_id) do update set blocked_username = excluded.blocked_username;
+
+  delete from friendships
+  where user_a_id = least(p_user_id, p_blocked_id) and user_b_id = greatest(p_user_id, p_blocked_id);
+
+  delete from connection_requests
+  where (requester_id = p_user_id and addressee_id = p_blocked_id)
+    or (requester_id = p_blocked_id and addressee_id = p_user_id);
+
+  update chat_rooms
+  set is_active = false, ended_at = now()
+  where is_active
+    and not is_group
+    and (
+      (user1_id = p_user_id and user2_id = p_blocked_id)
+      or (user1_id = p_blocked_id and user2_id = p_user_id)
+    );
+end;
+$$;
+
+create or replace function public.unblock_user(p_user_id uuid, p_blocked_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from blocks where blocker_id = p_user_id and blocked_id = p_blocked_id;
+$$;
+
+create or replace function public.reject_blocked_messages()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1
+    from chat_room_participants p
+    where p.room_id = new.room_id
+      and p.user_id <> new.sender_id
+      and p.left_at is null
+      and is_blocked(new.sender_id, p.user_id)
+  ) then
+    raise exception 'You cannot message this student' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_reject_blocked on public.messages;
+create trigger messages_reject_blocked
+  before insert on public.messages
+  for each row execute function public.reject_blocked_messages();
+
+create or replace function public.claim_match(
+  p_user_id uuid,
+  p_partner_id uuid,
+  p_shared_interests text[] default '{}',
+  p_course_code text default null
+)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_self waiting_queue%rowtype;
+  v_partner waiting_queue%rowtype;
+  v_room chat_rooms%rowtype;
+begin
+  perform pg_advisory_xact_lock(hashtext('find_match'));
+
+  -- Another seeker may have claimed us while we were ranking candidates.
+  select * into v_room
+  from chat_rooms
+  where is_active
+    and event_id is null
+    and not is_direct
+    and (user1_id = p_user_id or user2_id = p_user_id)
+  order by created_at desc
+  limit 1;
+
+  if found then
+    return v_room;
+  end if;
+
+  select * into v_self
+  from waiting_queue
+  where user_id = p_user_id and event_id is null
+  for update;
+
+  select * into v_partner
+  from waiting_queue
+  where user_id = p_partner_id
+    and user_id <> p_user_id
+    and event_id is null
+    and last_seen_at > now() - interval '30 seconds'
+  for update skip locked;
+
+  if v_self.user_id is null or v_partner.user_id is null or is_blocked(p_user_id, p_partner_id) then
+    return null;
+  end if;
+
+  delete from waiting_queue where user_id in (p_user_id, p_partner_id);
+
+  insert into chat_rooms (
+    user1_id, user2_id, user1_username, user2_username,
+    user1_college_domain, user2_college_domain, shared_interests, course_code, is_active
+  )
+  values (
+    p_user_id, p_partner_id, v_self.username, v_partner.username,
+    v_self.college_domain, v_partner.college_domain, coalesce(p_shared_interests, '{}'), p_course_code, true
+  )
+  returning * into v_room;
+
+  insert into recent_partners (user_id, partner_id)
+  values (p_user_id, p_partner_id), (p_partner_id, p_user_id)
+  on conflict (user_id, partner_id) do update set matched_at = now();
+
+  return v_room;
+end;
+$$;
+
+create or replace function public.advance_event_round(p_event_id uuid)
+returns public.networking_events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event networking_events%rowtype;
+  v_a record;
+  v_b record;
+  v_paired uuid[] := '{}';
+begin
+  select * into v_event from networking_events where id = p_event_id for update;
+
+  if not found then
+    raise exception 'This event does not exist' using errcode = 'P0002';
+  end if;
+
+  if v_event.status = 'finished'
+    or (v_event.status = 'scheduled' and now() < v_event.starts_at)
+    or (v_event.status = 'running' and now() < v_event.round_ends_at) then
+    return v_event;
+  end if;
+
+  update chat_rooms set is_active = false, ended_at = now() where event_id = p_event_id and is_active;
+
+  for v_a in
+    select user_id, username
+    from waiting_queue
+    where event_id = p_event_id and last_seen_at > now() - interval '30 seconds'
+    order by random()
+  loop
+    continue when v_a.user_id = any(v_paired);
+
+    select q.user_id, q.username into v_b
+    from waiting_queue q
+    where q.event_id = p_event_id
+      and q.last_seen_at > now() - interval '30 seconds'
+      and q.user_id <> v_a.user_id
+      and not (q.user_id = any(v_paired))
+      and not is_blocked(v_a.user_id, q.user_id)
+      and not exists (
+        select 1
+        from chat_rooms r
+        where r.event_id = p_event_id
+          and (
+            (r.user1_id = v_a.user_id and r.user2_id = q.user_id)
+            or (r.user1_id = q.user_id and r.user2_id = v_a.user_id)
+          )
+      )
+    order by random()
+    limit 1;
+
+    continue when not found;
+
+    v_paired := v_paired || v_a.user_id || v_b.user_id;
+
+    insert into chat_rooms (user1_id, user2_id, user1_username, user2_username, event_id, event_round, is_active)
+    values (v_a.user_id, v_b.user_id, v_a.username, v_b.username, p_event_id, v_event.current_round + 1, true);
+  end loop;
+
+  if cardinality(v_paired) = 0 then
+    update networking_events
+    set status = 'finished', round_ends_at = null
+    where id = p_event_id
+    returning * into v_event;
+  else
+    update networking_events
+    set status = 'running',
+        current_round = current_round + 1,
+        round_ends_at = now() + make_interval(secs => round_seconds)
+    where id = p_event_id
+    returning * into v_event;
+  end if;
+
+  return v_event;
+end;
+$$;
+
+grant execute on function public.is_blocked(uuid, uuid) to anon, authenticated;
+grant execute on function public.block_user(uuid, uuid, text) to anon, authenticated;
+grant execute on function public.unblock_user(uuid, uuid) to anon, authenticated;
@@ -0,0 +1,184 @@
+-- Text, voice and video chat modes.
+--
+-- Students pick a mode before searching. It is stored on their queue entry,
+-- only students with the same mode are paired, and the room inherits it.
+-- Either side of a text or voice room can ask to upgrade to video; once both
+-- have asked, request_video_upgrade switches the room to video and the
+-- clients see it through their chat_rooms UPDATE subscription.
+
+alter table public.waiting_queue add column if not exists chat_mode text not null default 'video'
+  check (chat_mode in ('text', 'voice', 'video'));
+alter table public.chat_rooms add column if not exists chat_mode text not null default 'video'
+  check (chat_mode in ('text', 'voice', 'video'));
+alter table public.chat_rooms add column if not exists video_upgrade_requested_by uuid[] not null default '{}';
+
+drop function if exists public.enqueue_for_match(uuid, text, text[], text, text[]);
+
+create or replace function public.enqueue_for_match(
+  p_user_id uuid,
+  p_username text default null,
+  p_interests text[] default '{}',
+  p_campus_preference text default 'any',
+  p_course_codes text[] default '{}',
+  p_chat_mode text default 'video'
+)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_room chat_rooms%rowtype;
+begin
+  perform pg_advisory_xact_lock(hashtext('find_match'));
+
+  -- Somebody else may already have paired us while we were queued.
+  select * into v_room
+  from chat_rooms
+  where is_active
+    and event_id is null
+    and not is_direct
+    and (user1_id = p_user_id or user2_id = p_user_id)
+  order by created_at desc
+  limit 1;
+
+  if found then
+    delete from waiting_queue where user_id = p_user_id;
+    return v_room;
+  end if;
+
+  -- Keep the original created_at on re-checks so the wait keeps counting.
+  insert into waiting_queue (
+    user_id, username, interests, college_domain, campus_preference, course_codes, chat_mode, last_seen_at
+  )
+  values (
+    p_user_id,
+    p_username,
+    coalesce(p_interests, '{}'),
+    (select college_domain from users where id = p_user_id),
+    coalesce(p_campus_preference, 'any'),
+    coalesce(p_course_codes, '{}'),
+    coalesce(p_chat_mode, 'video'),
+    now()
+  )
+  on conflict (user_id) do update
+    set username = excluded.username,
+        interests = excluded.interests,
+        college_domain = excluded.college_domain,
+        campus_preference = excluded.campus_preference,
+        course_codes = excluded.course_codes,
+        chat_mode = excluded.chat_mode,
+        event_id = null,
+        last_seen_at = excluded.last_seen_at;
+
+  return null;
+end;
+$$;
+
+create or replace function public.claim_match(
+  p_user_id uuid,
+  p_partner_id uuid,
+  p_shared_interests text[] default '{}',
+  p_course_code text default null
+)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_self waiting_queue%rowtype;
+  v_partner waiting_queue%rowtype;
+  v_room chat_rooms%rowtype;
+begin
+  perform pg_advisory_xact_lock(hashtext('find_match'));
+
+  -- Another seeker may have claimed us while we were ranking candidates.
+  select * into v_room
+  from chat_rooms
+  where is_active
+    and event_id is null
+    and not is_direct
+    and (user1_id = p_user_id or user2_id = p_user_id)
+  order by created_at desc
+  limit 1;
+
+  if found then
+    return v_room;
+  end if;
+
+  select * into v_self
+  from waiting_queue
+  where user_id = p_user_id and event_id is null
+  for update;
+
+  select * into v_partner
+  from waiting_queue
+  where user_id = p_partner_id
+    and user_id <> p_user_id
+    and event_id is null
+    and last_seen_at > now() - interval '30 seconds'
+  for update skip locked;
+
+  if v_self.user_id is null
+    or v_partner.user_id is null
+    or v_self.chat_mode <> v_partner.chat_mode
+    or is_blocked(p_user_id, p_partner_id) then
+    return null;
+  end if;
+
+  delete from waiting_queue where user_id in (p_user_id, p_partner_id);
+
+  insert into chat_rooms (
+    user1_id, user2_id, user1_username, user2_username,
+    user1_college_domain, user2_college_domain, shared_interests, course_code, chat_mode, is_active
+  )
+  values (
+    p_user_id, p_partner_id, v_self.username, v_partner.username,
+    v_self.college_domain, v_partner.college_domain, coalesce(p_shared_interests, '{}'), p_course_code,
+    v_self.chat_mode, true
+  )
+  returning * into v_room;
+
+  insert into recent_partners (user_id, partner_id)
+  values (p_user_id, p_partner_id), (p_partner_id, p_user_id)
+  on conflict (user_id, partner_id) do update set matched_at = now();
+
+  return v_room;
+end;
+$$;
+
+create or replace function public.request_video_upgrade(p_room_id uuid, p_user_id uuid)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_room chat_rooms%rowtype;
+begin
+  update chat_rooms
+  set video_upgrade_requested_by = array(
+    select distinct unnest(video_upgrade_requested_by || p_user_id)
+  )
+  where id = p_room_id
+    and is_active
+    and not is_group
+    and p_user_id in (user1_id, user2_id)
+  returning * into v_room;
+
+  if not found then
+    raise exception 'This chat has ended' using errcode = 'P0002';
+  end if;
+
+  if v_room.user1_id = any(v_room.video_upgrade_requested_by)
+    and v_room.user2_id = any(v_room.video_upgrade_requested_by) then
+    update chat_rooms set chat_mode = 'video' where id = p_room_id returning * into v_room;
+  end if;
+
+  return v_room;
+end;
+$$;
+
+grant execute on function public.enqueue_for_match(uuid, text, text[], text, text[], text) to anon, authenticated;
+grant execute on function public.request_video_upgrade(uuid, uuid) to anon, authenticated;
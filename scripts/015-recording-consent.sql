@@ -0,0 +1,49 @@
+-- Consent log for call recordings.
+--
+-- Recordings are made in the browser of whoever pressed Record, and only once
+-- everyone else in the call has agreed over the signaling channel. Each side
+-- logs its own part (asking, accepting or declining) on the room, so there is
+-- a server-side record of who agreed to be recorded and when.
+
+alter table public.chat_rooms add column if not exists recording_consents jsonb not null default '[]';
+
+create or replace function public.log_recording_consent(p_room_id uuid, p_user_id uuid, p_event text)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_room chat_rooms%rowtype;
+begin
+  if p_event not in ('requested', 'accepted', 'declined') then
+    raise exception 'Unknown recording consent event: %', p_event using errcode = '22023';
+  end if;
+
+  update chat_rooms
+  set recording_consents = recording_consents || jsonb_build_array(
+    jsonb_build_object('user_id', p_user_id, 'event', p_event, 'at', now())
+  )
+  where id = p_room_id
+    and is_active
+    and (
+      p_user_id in (user1_id, user2_id)
+      or exists (
+        select 1
+        from chat_room_participants p
+        where p.room_id = p_room_id
+          and p.user_id = p_user_id
+          and p.left_at is null
+      )
+    )
+  returning * into v_room;
+
+  if not found then
+    raise exception 'This chat has ended' using errcode = 'P0002';
+  end if;
+
+  return v_room;
+end;
+$$;
+
+grant execute on function public.log_recording_consent(uuid, uuid, text) to anon, authenticated;
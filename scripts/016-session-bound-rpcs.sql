@@ -0,0 +1,111 @@
+-- Caller identity comes from the Supabase session.
+--
+-- The matchmaking RPCs used to take the acting student's id as a parameter
+-- (p_user_id) and were executable by anon, so anyone holding the public key
+-- could queue, heartbeat or read queue status as somebody else. The
+-- client-facing functions now read the caller from auth.uid() through
+-- require_user_id() and are only granted to authenticated; the root page signs
+-- students in anonymously so they have a session too (enable anonymous
+-- sign-ins in the project's auth settings).
+--
+-- enqueue_for_match and claim_match keep their p_user_id parameter but are
+-- only callable with the service role, by /api/match after it has checked the
+-- caller's session.
+
+create or replace function public.require_user_id()
+returns uuid
+language plpgsql
+stable
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'You need to be signed in' using errcode = '28000';
+  end if;
+
+  return auth.uid();
+end;
+$$;
+
+drop function if exists public.queue_heartbeat(uuid);
+drop function if exists public.queue_status(uuid);
+
+create or replace function public.queue_heartbeat()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update waiting_queue set last_seen_at = now() where user_id = require_user_id();
+$$;
+
+create or replace function public.queue_status()
+returns table (queue_size integer, queue_position integer, estimated_wait_seconds integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := require_user_id();
+  v_created_at timestamptz;
+  v_recent_count integer;
+  v_first timestamptz;
+  v_last timestamptz;
+begin
+  select count(*) into queue_size
+  from waiting_queue
+  where last_seen_at > now() - interval '30 seconds'
+    and event_id is null;
+
+  select created_at into v_created_at from waiting_queue where user_id = v_user_id and event_id is null;
+
+  if v_created_at is null then
+    queue_position := null;
+  else
+    select count(*) + 1 into queue_position
+    from waiting_queue
+    where last_seen_at > now() - interval '30 seconds'
+      and event_id is null
+      and user_id <> v_user_id
+      and created_at < v_created_at;
+  end if;
+
+  select count(*), min(created_at), max(created_at) into v_recent_count, v_first, v_last
+  from (
+    select created_at
+    from chat_rooms
+    where created_at > now() - interval '1 hour'
+      and event_id is null
+    order by created_at desc
+    limit 20
+  ) recent;
+
+  if v_recent_count < 2 or queue_position is null then
+    estimated_wait_seconds := null;
+  else
+    estimated_wait_seconds := ceil(extract(epoch from v_last - v_first) / (v_recent_count - 1) * queue_position);
+  end if;
+
+  return next;
+end;
+$$;
+
+-- Server-only: the matchmaking route and the cleanup job.
+revoke all on function public.enqueue_for_match(uuid, text, text[], text, text[], text) from public, anon, authenticated;
+revoke all on function public.claim_match(uuid, uuid, text[], text) from public, anon, authenticated;
+revoke all on function public.cleanup_stale_matchmaking() from public, anon, authenticated;
+grant execute on function public.enqueue_for_match(uuid, text, text[], text, text[], text) to service_role;
+grant execute on function public.claim_match(uuid, uuid, text[], text) to service_role;
+grant execute on function public.cleanup_stale_matchmaking() to service_role;
+
+revoke all on function public.queue_heartbeat() from public, anon;
+revoke all on function public.queue_status() from public, anon;
+
+grant execute on function public.queue_heartbeat() to authenticated;
+grant execute on function public.queue_status() to authenticated;
+
+-- Students only read the cooldown list; the matchmaking functions write it.
+alter table public.recent_partners enable row level security;
+
+revoke all on public.recent_partners from anon;
@@ -0,0 +1,122 @@
+-- Group room RPCs take the caller from the session.
+--
+-- create_group_room, join_group_room and leave_room used to take p_user_id and
+-- were executable by anon, so anyone could join or leave a room as somebody
+-- else. They now use require_user_id() like the matchmaking functions, and
+-- chat_room_participants is read-only for the people in the room.
+
+-- Used by RLS policies on tables keyed by room; security definer so a policy on
+-- chat_room_participants can use it without recursing into itself.
+create or replace function public.is_room_participant(p_room_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from chat_room_participants where room_id = p_room_id and user_id = auth.uid()
+  );
+$$;
+
+drop function if exists public.create_group_room(uuid, text, integer);
+drop function if exists public.join_group_room(uuid, uuid, text);
+drop function if exists public.leave_room(uuid, uuid);
+
+create or replace function public.create_group_room(p_username text default null, p_max_participants integer default 6)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := require_user_id();
+  v_room chat_rooms%rowtype;
+begin
+  insert into chat_rooms (is_group, max_participants, is_active)
+  values (true, least(greatest(coalesce(p_max_participants, 6), 2), 6), true)
+  returning * into v_room;
+
+  insert into chat_room_participants (room_id, user_id, username)
+  values (v_room.id, v_user_id, p_username);
+
+  return v_room;
+end;
+$$;
+
+create or replace function public.join_group_room(p_room_id uuid, p_username text default null)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := require_user_id();
+  v_room chat_rooms%rowtype;
+begin
+  -- Locking the room row serializes joins so two people can't take the last seat.
+  select * into v_room
+  from chat_rooms
+  where id = p_room_id and is_group and is_active
+  for update;
+
+  if not found then
+    raise exception 'This group room does not exist or has ended' using errcode = 'P0002';
+  end if;
+
+  if not exists (
+    select 1 from chat_room_participants
+    where room_id = p_room_id and user_id = v_user_id and left_at is null
+  ) and (
+    select count(*) from chat_room_participants where room_id = p_room_id and left_at is null
+  ) >= v_room.max_participants then
+    raise exception 'This group room is full' using errcode = 'P0001';
+  end if;
+
+  insert into chat_room_participants (room_id, user_id, username)
+  values (p_room_id, v_user_id, p_username)
+  on conflict (room_id, user_id) do update
+    set username = excluded.username, joined_at = now(), left_at = null;
+
+  return v_room;
+end;
+$$;
+
+-- The room closes when its last participant leaves.
+create or replace function public.leave_room(p_room_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := require_user_id();
+begin
+  update chat_room_participants
+  set left_at = now()
+  where room_id = p_room_id and user_id = v_user_id and left_at is null;
+
+  update chat_rooms
+  set is_active = false, ended_at = now()
+  where id = p_room_id
+    and is_active
+    and not exists (select 1 from chat_room_participants where room_id = p_room_id and left_at is null);
+end;
+$$;
+
+revoke all on function public.create_group_room(text, integer) from public, anon;
+revoke all on function public.join_group_room(uuid, text) from public, anon;
+revoke all on function public.leave_room(uuid) from public, anon;
+
+grant execute on function public.create_group_room(text, integer) to authenticated;
+grant execute on function public.join_group_room(uuid, text) to authenticated;
+grant execute on function public.leave_room(uuid) to authenticated;
+
+alter table public.chat_room_participants enable row level security;
+
+revoke all on public.chat_room_participants from anon;
+
+drop policy if exists "Participants see who is in their rooms" on public.chat_room_participants;
+create policy "Participants see who is in their rooms" on public.chat_room_participants
+  for select to authenticated
+  using (is_room_participant(room_id));
@@ -0,0 +1,102 @@
+-- Networking event RPCs take the caller from the session.
+--
+-- The organizer and attendee ids used to be parameters, so anyone could end or
+-- leave an event as somebody else. The functions now use require_user_id(),
+-- and networking_events is read-only to signed-in students.
+
+drop function if exists public.create_networking_event(uuid, text, timestamptz, integer);
+drop function if exists public.join_networking_event(uuid, uuid, text);
+drop function if exists public.leave_networking_event(uuid, uuid);
+drop function if exists public.end_networking_event(uuid, uuid);
+
+create or replace function public.create_networking_event(p_title text, p_starts_at timestamptz, p_round_seconds integer)
+returns public.networking_events
+language sql
+security definer
+set search_path = public
+as $$
+  insert into networking_events (organizer_id, title, starts_at, round_seconds)
+  values (require_user_id(), p_title, p_starts_at, p_round_seconds)
+  returning *;
+$$;
+
+create or replace function public.join_networking_event(p_event_id uuid, p_username text default null)
+returns public.networking_events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := require_user_id();
+  v_event networking_events%rowtype;
+begin
+  select * into v_event from networking_events where id = p_event_id;
+
+  if not found or v_event.status = 'finished' then
+    raise exception 'This event does not exist or has finished' using errcode = 'P0002';
+  end if;
+
+  insert into waiting_queue (user_id, username, event_id, last_seen_at)
+  values (v_user_id, p_username, p_event_id, now())
+  on conflict (user_id) do update
+    set username = excluded.username, event_id = excluded.event_id, last_seen_at = excluded.last_seen_at;
+
+  return v_event;
+end;
+$$;
+
+create or replace function public.leave_networking_event(p_event_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from waiting_queue where user_id = require_user_id() and event_id = p_event_id;
+$$;
+
+create or replace function public.end_networking_event(p_event_id uuid)
+returns public.networking_events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := require_user_id();
+  v_event networking_events%rowtype;
+begin
+  update networking_events
+  set status = 'finished', round_ends_at = null
+  where id = p_event_id and organizer_id = v_user_id
+  returning * into v_event;
+
+  if not found then
+    raise exception 'Only the organizer can end this event' using errcode = '42501';
+  end if;
+
+  update chat_rooms set is_active = false, ended_at = now() where event_id = p_event_id and is_active;
+  delete from waiting_queue where event_id = p_event_id;
+
+  return v_event;
+end;
+$$;
+
+revoke all on function public.create_networking_event(text, timestamptz, integer) from public, anon;
+revoke all on function public.join_networking_event(uuid, text) from public, anon;
+revoke all on function public.leave_networking_event(uuid) from public, anon;
+revoke all on function public.advance_event_round(uuid) from public, anon;
+revoke all on function public.end_networking_event(uuid) from public, anon;
+
+grant execute on function public.create_networking_event(text, timestamptz, integer) to authenticated;
+grant execute on function public.join_networking_event(uuid, text) to authenticated;
+grant execute on function public.leave_networking_event(uuid) to authenticated;
+grant execute on function public.advance_event_round(uuid) to authenticated;
+grant execute on function public.end_networking_event(uuid) to authenticated;
+
+alter table public.networking_events enable row level security;
+
+revoke all on public.networking_events from anon;
+
+drop policy if exists "Signed-in students see events" on public.networking_events;
+create policy "Signed-in students see events" on public.networking_events
+  for select to authenticated
+  using (true);
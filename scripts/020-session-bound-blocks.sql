@@ -0,0 +1,55 @@
+-- Block RPCs take the caller from the session.
+--
+-- block_user and unblock_user used to take the blocker as a parameter, so
+-- anyone could block on somebody else's behalf. is_blocked is only used
+-- inside other functions, so nobody calls it directly any more.
+
+drop function if exists public.block_user(uuid, uuid, text);
+drop function if exists public.unblock_user(uuid, uuid);
+
+create or replace function public.block_user(p_blocked_id uuid, p_blocked_username text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := require_user_id();
+begin
+  insert into blocks (blocker_id, blocked_id, blocked_username)
+  values (v_user_id, p_blocked_id, p_blocked_username)
+  on conflict (blocker_id, blocked_id) do update set blocked_username = excluded.blocked_username;
+
+  delete from friendships
+  where user_a_id = least(v_user_id, p_blocked_id) and user_b_id = greatest(v_user_id, p_blocked_id);
+
+  delete from connection_requests
+  where (requester_id = v_user_id and addressee_id = p_blocked_id)
+    or (requester_id = p_blocked_id and addressee_id = v_user_id);
+
+  update chat_rooms
+  set is_active = false, ended_at = now()
+  where is_active
+    and not is_group
+    and (
+      (user1_id = v_user_id and user2_id = p_blocked_id)
+      or (user1_id = p_blocked_id and user2_id = v_user_id)
+    );
+end;
+$$;
+
+create or replace function public.unblock_user(p_blocked_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from blocks where blocker_id = require_user_id() and blocked_id = p_blocked_id;
+$$;
+
+revoke all on function public.is_blocked(uuid, uuid) from public, anon, authenticated;
+revoke all on function public.block_user(uuid, text) from public, anon;
+revoke all on function public.unblock_user(uuid) from public, anon;
+
+grant execute on function public.block_user(uuid, text) to authenticated;
+grant execute on function public.unblock_user(uuid) to authenticated;
@@ -0,0 +1,39 @@
+-- request_video_upgrade takes the caller from the session instead of p_user_id.
+
+drop function if exists public.request_video_upgrade(uuid, uuid);
+
+create or replace function public.request_video_upgrade(p_room_id uuid)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := require_user_id();
+  v_room chat_rooms%rowtype;
+begin
+  update chat_rooms
+  set video_upgrade_requested_by = array(
+    select distinct unnest(video_upgrade_requested_by || v_user_id)
+  )
+  where id = p_room_id
+    and is_active
+    and not is_group
+    and v_user_id in (user1_id, user2_id)
+  returning * into v_room;
+
+  if not found then
+    raise exception 'This chat has ended' using errcode = 'P0002';
+  end if;
+
+  if v_room.user1_id = any(v_room.video_upgrade_requested_by)
+    and v_room.user2_id = any(v_room.video_upgrade_requested_by) then
+    update chat_rooms set chat_mode = 'video' where id = p_room_id returning * into v_room;
+  end if;
+
+  return v_room;
+end;
+$$;
+
+revoke all on function public.request_video_upgrade(uuid) from public, anon;
+grant execute on function public.request_video_upgrade(uuid) to authenticated;
@@ -0,0 +1,39 @@
+-- Heartbeats report whether the queue entry is still there.
+--
+-- queue_heartbeat used to return nothing, so a client whose entry had been
+-- swept by cleanup_stale_matchmaking (a sleeping laptop, a long network
+-- blip) kept heartbeating a row that no longer existed and showed
+-- "searching" forever. It now returns false in that case and the client
+-- queues again.
+--
+-- The cleanup also no longer depends on pg_cron, which silently did nothing
+-- on projects without the extension: /api/match runs it at most once a
+-- minute with the service role, and any existing cron job is removed so
+-- there is only one schedule to reason about.
+
+drop function if exists public.queue_heartbeat();
+
+create or replace function public.queue_heartbeat()
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update waiting_queue set last_seen_at = now() where user_id = require_user_id();
+  return found;
+end;
+$$;
+
+revoke all on function public.queue_heartbeat() from public, anon;
+grant execute on function public.queue_heartbeat() to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    if exists (select 1 from cron.job where jobname = 'cleanup-stale-matchmaking') then
+      perform cron.unschedule('cleanup-stale-matchmaking');
+    end if;
+  end if;
+end;
+$$;
@@ -0,0 +1,64 @@
+-- The rematch cooldown counts from when a chat ends, not when it started.
+--
+-- recent_partners.matched_at was only set when the pair was matched, so a
+-- chat that outlasted the cooldown could be followed by the same pairing
+-- straight after pressing Next. Closing a 1:1 room, however that happens,
+-- now moves matched_at for both directions up to the moment it ended.
+--
+-- cleanup_stale_matchmaking used to drop entries older than a day, which
+-- quietly capped any longer cooldown. It now takes the cooldown from
+-- /api/match and only drops entries that have run out of it.
+
+create or replace function public.restart_rematch_cooldown()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update recent_partners
+  set matched_at = now()
+  where (user_id = new.user1_id and partner_id = new.user2_id)
+    or (user_id = new.user2_id and partner_id = new.user1_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists chat_rooms_restart_rematch_cooldown on public.chat_rooms;
+create trigger chat_rooms_restart_rematch_cooldown
+  after update of is_active on public.chat_rooms
+  for each row when (old.is_active and not new.is_active and not new.is_group)
+  execute function public.restart_rematch_cooldown();
+
+drop function if exists public.cleanup_stale_matchmaking();
+
+create or replace function public.cleanup_stale_matchmaking(p_rematch_cooldown_seconds integer)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from waiting_queue where last_seen_at < now() - interval '30 seconds';
+  delete from recent_partners where matched_at < now() - make_interval(secs => p_rematch_cooldown_seconds);
+
+  update chat_rooms r
+  set is_active = false, ended_at = now()
+  where r.is_active
+    and (
+      not exists (
+        select 1
+        from chat_room_participants p
+        join users u on u.id = p.user_id
+        where p.room_id = r.id and p.left_at is null and u.is_online
+      )
+      or greatest(
+        r.created_at,
+        (select max(m.created_at) from messages m where m.room_id = r.id)
+      ) < now() - interval '2 hours'
+    );
+end;
+$$;
+
+revoke all on function public.cleanup_stale_matchmaking(integer) from public, anon, authenticated;
+grant execute on function public.cleanup_stale_matchmaking(integer) to service_role;
@@ -0,0 +1,38 @@
+-- Row-level security on waiting_queue.
+--
+-- waiting_queue was added to the Realtime publication (007) with no RLS, so
+-- every searcher's interests, course codes and college domain were readable
+-- by anyone, and broadcast to every subscriber. Students can now only see
+-- and delete their own entry; everything else goes through the security
+-- definer functions. Searching clients no longer listen to the whole queue:
+-- they refresh queue_status on their heartbeat and, at a capped rate, when a
+-- match is made. The event lobby's head count comes from event_lobby_size.
+
+alter table public.waiting_queue enable row level security;
+
+revoke all on public.waiting_queue from anon;
+
+drop policy if exists "Students see their own queue entry" on public.waiting_queue;
+create policy "Students see their own queue entry" on public.waiting_queue
+  for select to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Students leave the queue themselves" on public.waiting_queue;
+create policy "Students leave the queue themselves" on public.waiting_queue
+  for delete to authenticated
+  using (user_id = auth.uid());
+
+create or replace function public.event_lobby_size(p_event_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(*)::integer
+  from waiting_queue
+  where event_id = p_event_id and last_seen_at > now() - interval '30 seconds';
+$$;
+
+revoke all on function public.event_lobby_size(uuid) from public, anon;
+grant execute on function public.event_lobby_size(uuid) to authenticated;
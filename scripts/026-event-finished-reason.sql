@@ -0,0 +1,122 @@
+-- Networking events record why they finished.
+--
+-- advance_event_round marks an event finished as soon as a round can't pair
+-- anyone. When that happens at the start time, because fewer than two
+-- people were in the lobby, the host just saw "This event has finished"
+-- with no idea why. finished_reason tells the host whether the event ran
+-- its course, never got enough people, or was ended by them.
+
+alter table public.networking_events add column if not exists finished_reason text
+  check (finished_reason in ('completed', 'not_enough_participants', 'ended_by_organizer'));
+
+create or replace function public.advance_event_round(p_event_id uuid)
+returns public.networking_events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event networking_events%rowtype;
+  v_a record;
+  v_b record;
+  v_paired uuid[] := '{}';
+begin
+  select * into v_event from networking_events where id = p_event_id for update;
+
+  if not found then
+    raise exception 'This event does not exist' using errcode = 'P0002';
+  end if;
+
+  if v_event.status = 'finished'
+    or (v_event.status = 'scheduled' and now() < v_event.starts_at)
+    or (v_event.status = 'running' and now() < v_event.round_ends_at) then
+    return v_event;
+  end if;
+
+  update chat_rooms set is_active = false, ended_at = now() where event_id = p_event_id and is_active;
+
+  for v_a in
+    select user_id, username
+    from waiting_queue
+    where event_id = p_event_id and last_seen_at > now() - interval '30 seconds'
+    order by random()
+  loop
+    continue when v_a.user_id = any(v_paired);
+
+    select q.user_id, q.username into v_b
+    from waiting_queue q
+    where q.event_id = p_event_id
+      and q.last_seen_at > now() - interval '30 seconds'
+      and q.user_id <> v_a.user_id
+      and not (q.user_id = any(v_paired))
+      and not is_blocked(v_a.user_id, q.user_id)
+      and not exists (
+        select 1
+        from chat_rooms r
+        where r.event_id = p_event_id
+          and (
+            (r.user1_id = v_a.user_id and r.user2_id = q.user_id)
+            or (r.user1_id = q.user_id and r.user2_id = v_a.user_id)
+          )
+      )
+    order by random()
+    limit 1;
+
+    continue when not found;
+
+    v_paired := v_paired || v_a.user_id || v_b.user_id;
+
+    insert into chat_rooms (user1_id, user2_id, user1_username, user2_username, event_id, event_round, is_active)
+    values (v_a.user_id, v_b.user_id, v_a.username, v_b.username, p_event_id, v_event.current_round + 1, true);
+  end loop;
+
+  if cardinality(v_paired) = 0 then
+    update networking_events
+    set status = 'finished',
+        round_ends_at = null,
+        finished_reason = case when current_round = 0 then 'not_enough_participants' else 'completed' end
+    where id = p_event_id
+    returning * into v_event;
+  else
+    update networking_events
+    set status = 'running',
+        current_round = current_round + 1,
+        round_ends_at = now() + make_interval(secs => round_seconds)
+    where id = p_event_id
+    returning * into v_event;
+  end if;
+
+  return v_event;
+end;
+$$;
+
+create or replace function public.end_networking_event(p_event_id uuid)
+returns public.networking_events
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := require_user_id();
+  v_event networking_events%rowtype;
+begin
+  update networking_events
+  set status = 'finished', round_ends_at = null, finished_reason = 'ended_by_organizer'
+  where id = p_event_id and organizer_id = v_user_id
+  returning * into v_event;
+
+  if not found then
+    raise exception 'Only the organizer can end this event' using errcode = '42501';
+  end if;
+
+  update chat_rooms set is_active = false, ended_at = now() where event_id = p_event_id and is_active;
+  delete from waiting_queue where event_id = p_event_id;
+
+  return v_event;
+end;
+$$;
+
+revoke all on function public.advance_event_round(uuid) from public, anon;
+revoke all on function public.end_networking_event(uuid) from public, anon;
+grant execute on function public.advance_event_round(uuid) to authenticated;
+grant execute on function public.end_networking_event(uuid) to authenticated;
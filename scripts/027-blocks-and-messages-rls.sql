@@ -0,0 +1,144 @@
+-- Row-level security on blocks and messages, and blocks checked for contacts.
+--
+-- blocks had no RLS, so a blocked student could read who blocked them or
+-- simply delete the row. Students now only see their own blocks, and adding
+-- or removing one goes through block_user and unblock_user.
+--
+-- messages had no RLS either, so reject_blocked_messages trusted whatever
+-- sender_id the client wrote. Messages can now only be sent as yourself,
+-- into a room you're still in, and only read by the room's participants.
+--
+-- request_connection and start_direct_room refuse to connect or call back a
+-- student on either side of a block, for rooms and friendships left over
+-- from before the block.
+
+alter table public.blocks enable row level security;
+alter table public.messages enable row level security;
+
+revoke all on public.blocks, public.messages from anon;
+
+drop policy if exists "Students see who they blocked" on public.blocks;
+create policy "Students see who they blocked" on public.blocks
+  for select to authenticated
+  using (blocker_id = auth.uid());
+
+drop policy if exists "Participants read their rooms' messages" on public.messages;
+create policy "Participants read their rooms' messages" on public.messages
+  for select to authenticated
+  using (is_room_participant(room_id));
+
+drop policy if exists "Participants send messages as themselves" on public.messages;
+create policy "Participants send messages as themselves" on public.messages
+  for insert to authenticated
+  with check (
+    sender_id = auth.uid()
+    and exists (
+      select 1
+      from chat_room_participants p
+      where p.room_id = messages.room_id and p.user_id = auth.uid() and p.left_at is null
+    )
+  );
+
+-- Returns true once both people in the room have asked to connect.
+create or replace function public.request_connection(p_room_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := require_user_id();
+  v_room chat_rooms%rowtype;
+  v_partner_id uuid;
+begin
+  select * into v_room from chat_rooms where id = p_room_id and not is_group;
+
+  if not found or v_user_id not in (v_room.user1_id, v_room.user2_id) then
+    raise exception 'You can only connect with someone you were matched with' using errcode = 'P0002';
+  end if;
+
+  v_partner_id := case when v_room.user1_id = v_user_id then v_room.user2_id else v_room.user1_id end;
+
+  if is_blocked(v_user_id, v_partner_id) then
+    raise exception 'You cannot connect with this student' using errcode = '42501';
+  end if;
+
+  insert into connection_requests (room_id, requester_id, addressee_id)
+  values (p_room_id, v_user_id, v_partner_id)
+  on conflict (room_id, requester_id) do nothing;
+
+  if not exists (select 1 from connection_requests where room_id = p_room_id and requester_id = v_partner_id) then
+    return false;
+  end if;
+
+  insert into friendships (user_a_id, user_b_id, user_a_username, user_b_username)
+  select
+    least(v_room.user1_id, v_room.user2_id),
+    greatest(v_room.user1_id, v_room.user2_id),
+    case when v_room.user1_id < v_room.user2_id then v_room.user1_username else v_room.user2_username end,
+    case when v_room.user1_id < v_room.user2_id then v_room.user2_username else v_room.user1_username end
+  on conflict (user_a_id, user_b_id) do nothing;
+
+  return true;
+end;
+$$;
+
+-- The friend is always user2_id, which is what their contacts list listens on.
+create or replace function public.start_direct_room(p_friend_id uuid)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := require_user_id();
+  v_friendship friendships%rowtype;
+  v_room chat_rooms%rowtype;
+begin
+  if is_blocked(v_user_id, p_friend_id) then
+    raise exception 'You cannot call this student' using errcode = '42501';
+  end if;
+
+  select * into v_friendship
+  from friendships
+  where user_a_id = least(v_user_id, p_friend_id) and user_b_id = greatest(v_user_id, p_friend_id);
+
+  if not found then
+    raise exception 'You are not connected with this student' using errcode = 'P0002';
+  end if;
+
+  -- Calling back while an earlier invite is still open reuses that room.
+  select * into v_room
+  from chat_rooms
+  where is_active
+    and is_direct
+    and (
+      (user1_id = v_user_id and user2_id = p_friend_id)
+      or (user1_id = p_friend_id and user2_id = v_user_id)
+    )
+  order by created_at desc
+  limit 1;
+
+  if found then
+    return v_room;
+  end if;
+
+  insert into chat_rooms (user1_id, user2_id, user1_username, user2_username, is_direct, is_active)
+  values (
+    v_user_id,
+    p_friend_id,
+    case when v_friendship.user_a_id = v_user_id then v_friendship.user_a_username else v_friendship.user_b_username end,
+    case when v_friendship.user_a_id = v_user_id then v_friendship.user_b_username else v_friendship.user_a_username end,
+    true,
+    true
+  )
+  returning * into v_room;
+
+  return v_room;
+end;
+$$;
+
+revoke all on function public.request_connection(uuid) from public, anon;
+revoke all on function public.start_direct_room(uuid) from public, anon;
+grant execute on function public.request_connection(uuid) to authenticated;
+grant execute on function public.start_direct_room(uuid) to authenticated;
@@ -0,0 +1,50 @@
+-- The recording consent log also records when a recording starts and stops.
+--
+-- The log showed who asked and who agreed, but not whether a recording was
+-- ever made or how long it ran. The recorder now logs 'started' and
+-- 'stopped' too. A recording is often stopped by the call ending, after the
+-- room has closed and its participants have been checked out, so 'stopped'
+-- is still accepted from anyone who was in the room.
+
+create or replace function public.log_recording_consent(p_room_id uuid, p_event text)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := require_user_id();
+  v_room chat_rooms%rowtype;
+begin
+  if p_event not in ('requested', 'accepted', 'declined', 'started', 'stopped') then
+    raise exception 'Unknown recording consent event: %', p_event using errcode = '22023';
+  end if;
+
+  update chat_rooms
+  set recording_consents = recording_consents || jsonb_build_array(
+    jsonb_build_object('user_id', v_user_id, 'event', p_event, 'at', now())
+  )
+  where id = p_room_id
+    and (is_active or p_event = 'stopped')
+    and (
+      v_user_id in (user1_id, user2_id)
+      or exists (
+        select 1
+        from chat_room_participants p
+        where p.room_id = p_room_id
+          and p.user_id = v_user_id
+          and (p.left_at is null or p_event = 'stopped')
+      )
+    )
+  returning * into v_room;
+
+  if not found then
+    raise exception 'This chat has ended' using errcode = 'P0002';
+  end if;
+
+  return v_room;
+end;
+$$;
+
+revoke all on function public.log_recording_consent(uuid, text) from public, anon;
+grant execute on function public.log_recording_consent(uuid, text) to authenticated;
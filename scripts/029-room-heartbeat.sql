@@ -0,0 +1,53 @@
+-- Rooms are abandoned when their participants stop heartbeating.
+--
+-- cleanup_stale_matchmaking closed any room where no participant had
+-- users.is_online set. That flag is only a hint: the root page used to clear
+-- it for everyone on every page load, and a tab that crashes never clears it
+-- at all, so live chats were closed and dead ones kept open. Clients in a
+-- room now call room_heartbeat every 30 seconds, and a room is abandoned once
+-- none of its current participants has done so for two minutes.
+
+alter table public.chat_room_participants add column if not exists last_seen_at timestamptz not null default now();
+
+create or replace function public.room_heartbeat(p_room_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update chat_room_participants
+  set last_seen_at = now()
+  where room_id = p_room_id and user_id = require_user_id() and left_at is null;
+end;
+$$;
+
+create or replace function public.cleanup_stale_matchmaking(p_rematch_cooldown_seconds integer)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from waiting_queue where last_seen_at < now() - interval '30 seconds';
+  delete from recent_partners where matched_at < now() - make_interval(secs => p_rematch_cooldown_seconds);
+
+  update chat_rooms r
+  set is_active = false, ended_at = now()
+  where r.is_active
+    and (
+      not exists (
+        select 1
+        from chat_room_participants p
+        where p.room_id = r.id and p.left_at is null and p.last_seen_at > now() - interval '2 minutes'
+      )
+      or greatest(
+        r.created_at,
+        (select max(m.created_at) from messages m where m.room_id = r.id)
+      ) < now() - interval '2 hours'
+    );
+end;
+$$;
+
+revoke all on function public.room_heartbeat(uuid) from public, anon;
+grant execute on function public.room_heartbeat(uuid) to authenticated;
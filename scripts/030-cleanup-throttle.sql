@@ -0,0 +1,65 @@
+-- The matchmaking cleanup is throttled in the database.
+--
+-- /api/match kept the time of its last sweep in a module variable, which is
+-- per server instance and reset on every cold start, so on serverless hosts
+-- the sweep ran on nearly every request or, across many instances, far more
+-- than once a minute. The last run now lives in a single-row table:
+-- cleanup_stale_matchmaking claims the run by moving last_run_at forward and
+-- returns false without sweeping if another caller did so within
+-- p_min_interval_seconds. The row lock makes concurrent callers wait and then
+-- see the new last_run_at, so only one of them sweeps.
+
+create table if not exists public.matchmaking_cleanup_runs (
+  id boolean primary key default true check (id),
+  last_run_at timestamptz not null default '-infinity'
+);
+
+insert into public.matchmaking_cleanup_runs (id) values (true) on conflict (id) do nothing;
+
+alter table public.matchmaking_cleanup_runs enable row level security;
+revoke all on public.matchmaking_cleanup_runs from anon, authenticated;
+
+drop function if exists public.cleanup_stale_matchmaking(integer);
+
+create or replace function public.cleanup_stale_matchmaking(
+  p_rematch_cooldown_seconds integer,
+  p_min_interval_seconds integer
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update matchmaking_cleanup_runs
+  set last_run_at = now()
+  where last_run_at < now() - make_interval(secs => p_min_interval_seconds);
+
+  if not found then
+    return false;
+  end if;
+
+  delete from waiting_queue where last_seen_at < now() - interval '30 seconds';
+  delete from recent_partners where matched_at < now() - make_interval(secs => p_rematch_cooldown_seconds);
+
+  update chat_rooms r
+  set is_active = false, ended_at = now()
+  where r.is_active
+    and (
+      not exists (
+        select 1
+        from chat_room_participants p
+        where p.room_id = r.id and p.left_at is null and p.last_seen_at > now() - interval '2 minutes'
+      )
+      or greatest(
+        r.created_at,
+        (select max(m.created_at) from messages m where m.room_id = r.id)
+      ) < now() - interval '2 hours'
+    );
+
+  return true;
+end;
+$$;
+
+revoke all on function public.cleanup_stale_matchmaking(integer, integer) from public, anon, authenticated;
+grant execute on function public.cleanup_stale_matchmaking(integer, integer) to service_role;
@@ -0,0 +1,34 @@
+-- 1:1 and direct rooms are closed through end_room.
+--
+-- Ending a chat and declining a contact's call used to update chat_rooms
+-- straight from the browser, and nothing stopped anyone from closing other
+-- people's rooms or inserting a direct room with any partner. end_room only
+-- closes a room the caller is in, and rooms can no longer be inserted or
+-- deleted by clients: they come from /api/match, the group and event
+-- functions, and start_direct_room, which checks the friendship and blocks.
+
+create or replace function public.end_room(p_room_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := require_user_id();
+  v_room chat_rooms%rowtype;
+begin
+  select * into v_room from chat_rooms where id = p_room_id and not is_group;
+
+  if not found or v_user_id not in (v_room.user1_id, v_room.user2_id) then
+    raise exception 'You are not in this chat' using errcode = '42501';
+  end if;
+
+  -- The other side may have ended it first
+  update chat_rooms set is_active = false, ended_at = now() where id = p_room_id and is_active;
+end;
+$$;
+
+revoke all on function public.end_room(uuid) from public, anon;
+grant execute on function public.end_room(uuid) to authenticated;
+
+revoke insert, delete on public.chat_rooms from anon, authenticated;
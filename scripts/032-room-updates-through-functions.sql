@@ -0,0 +1,10 @@
+-- Rooms are only updated by database functions.
+--
+-- With update granted on chat_rooms, either side of a text or voice chat
+-- could set chat_mode to 'video' directly instead of going through
+-- request_video_upgrade, which only switches once both people have asked.
+-- Clients no longer update rooms at all (end_room closes them), so update is
+-- revoked outright and chat_mode, video_upgrade_requested_by and the rest of
+-- the row only change through the functions.
+
+revoke update on public.chat_rooms from anon, authenticated;
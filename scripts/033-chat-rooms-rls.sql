@@ -0,0 +1,17 @@
+-- chat_rooms is behind RLS.
+--
+-- The recording consent log lives on the room, and without RLS anyone holding
+-- the public key could read every room's log, and before 031 and 032 rewrite
+-- it. Participants can now only read their own rooms, clients have no write
+-- access at all, and consent is only recorded through log_recording_consent,
+-- which checks the caller is in the room.
+
+alter table public.chat_rooms enable row level security;
+
+revoke all on public.chat_rooms from anon;
+
+-- user1_id and user2_id cover the moment a match is inserted, before its participant rows exist
+drop policy if exists "Participants see their rooms" on public.chat_rooms;
+create policy "Participants see their rooms" on public.chat_rooms
+  for select to authenticated
+  using (auth.uid() in (user1_id, user2_id) or is_room_participant(id));
@@ -0,0 +1,51 @@
+// Puts the background-effect runtime and model into public/segmentation, where lib/background-effects.ts
+// loads them from. Runs before `next dev` and `next build`; skipped when NEXT_PUBLIC_SEGMENTATION_ASSETS_URL
+// points the app at another host.
+import { cp, mkdir, stat, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { fileURLToPath } from "node:url"
+
+const MODEL_URL =
+  process.env.SEGMENTATION_MODEL_URL ||
+  "https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/latest/selfie_segmenter.tflite"
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..")
+const target = path.join(root, "public", "segmentation")
+const modelPath = path.join(target, "selfie_segmenter.tflite")
+
+async function exists(file) {
+  try {
+    await stat(file)
+    return true
+  } catch {
+    return false
+  }
+}
+
+if (process.env.NEXT_PUBLIC_SEGMENTATION_ASSETS_URL) {
+  console.log("NEXT_PUBLIC_SEGMENTATION_ASSETS_URL is set, not copying segmentation assets")
+  process.exit(0)
+}
+
+// The wasm has to match the installed @mediapipe/tasks-vision, so it's copied on every run
+await mkdir(target, { recursive: true })
+await cp(path.join(root, "node_modules", "@mediapipe", "tasks-vision", "wasm"), path.join(target, "wasm"), {
+  recursive: true,
+})
+
+// The model isn't published to npm, so it's downloaded once and then kept. Offline builds carry on without it;
+// background effects then fail to load and the call and camera check report them as unavailable.
+if (!(await exists(modelPath))) {
+  try {
+    const response = await fetch(MODEL_URL)
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`)
+    await writeFile(modelPath, Buffer.from(await response.arrayBuffer()))
+  } catch (error) {
+    console.warn(`Could not download the segmentation model from ${MODEL_URL}: ${error.message}`)
+    console.warn(`Background effects will be unavailable. Put selfie_segmenter.tflite in ${target} or set`)
+    console.warn("NEXT_PUBLIC_SEGMENTATION_ASSETS_URL to enable them.")
+    process.exit(0)
+  }
+}
+
+console.log(`Segmentation assets ready in ${path.relative(root, target)}`)